@@ -0,0 +1,32 @@
+/**
+ * Adapter that wraps plain text to implement ParseableDocument.
+ * Used outside VS Code (the CLI) to feed file contents to ParserService.
+ */
+
+import { ParseableDocument } from "../core/types";
+
+export class TextDocumentAdapter implements ParseableDocument {
+  private readonly lines: string[];
+
+  constructor(
+    private readonly text: string,
+    readonly languageId: string
+  ) {
+    this.lines = text.split(/\r?\n/);
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Get text for a specific line (without its line ending).
+   */
+  lineAt(line: number): { text: string } {
+    return { text: this.lines[line] ?? "" };
+  }
+}
@@ -9,6 +9,10 @@ import { ParseableDocument } from "../core/types";
 export class VSCodeDocumentAdapter implements ParseableDocument {
   constructor(private readonly document: vscode.TextDocument) {}
 
+  get uri(): string {
+    return this.document.uri.toString();
+  }
+
   get languageId(): string {
     return this.document.languageId;
   }
@@ -0,0 +1,132 @@
+/**
+ * Headless alignment API.
+ *
+ * Aligns a string the same way the format command aligns an editor, without
+ * VS Code. Published as the package's `./align` entry point:
+ *
+ *   const { alignText } = require("even-better-virtual-align/align");
+ *   const { text, groups } = await alignText(source, "typescript");
+ */
+
+import * as path from "path";
+import { TextDocumentAdapter } from "./adapters/TextDocumentAdapter";
+import {
+  AlignmentGroup,
+  isFormattableLanguage,
+  isSupportedLanguage,
+  LineRange,
+} from "./core/types";
+import { applyPaddingOps } from "./logic/Formatter";
+import { filterGroupsInRange, groupTokens } from "./logic/Grouper";
+import { calculatePaddingOps } from "./logic/Layout";
+import { ParserService } from "./parsing/ParserService";
+
+export type {
+  AlignmentGroup,
+  AlignmentToken,
+  LineRange,
+  OperatorType,
+  SupportedLanguage,
+} from "./core/types";
+export {
+  ALL_SUPPORTED_LANGUAGES,
+  isFormattableLanguage,
+  isSupportedLanguage,
+} from "./core/types";
+
+/**
+ * Options for alignText.
+ */
+export interface AlignOptions {
+  /** Only align groups touching these lines, like Format Selection */
+  range?: LineRange;
+  /** Directory containing the Tree-sitter WASM files (default: resolved from node_modules) */
+  wasmDir?: string;
+}
+
+/**
+ * Result of alignText.
+ */
+export interface AlignResult {
+  /** The aligned text (line endings preserved) */
+  text: string;
+  /** Groups found in the input, with positions relative to the input text */
+  groups: AlignmentGroup[];
+}
+
+/** Parsers by WASM directory, shared across calls */
+const parsers = new Map<string, Promise<ParserService>>();
+
+/**
+ * Gets an initialized parser for a WASM directory, creating it on first use.
+ */
+function getParser(wasmDir: string): Promise<ParserService> {
+  let parser = parsers.get(wasmDir);
+  if (!parser) {
+    const parserService = new ParserService({ wasmDir });
+    parser = parserService.initialize().then(() => parserService);
+    // Let a failed initialization be retried by the next call
+    parser.catch(() => parsers.delete(wasmDir));
+    parsers.set(wasmDir, parser);
+  }
+  return parser;
+}
+
+/**
+ * Aligns text by inserting padding spaces.
+ * Throws if the language isn't supported; text in a virtual-only language
+ * (dotenv) comes back unchanged.
+ */
+export async function alignText(
+  text: string,
+  languageId: string,
+  options: AlignOptions = {}
+): Promise<AlignResult> {
+  if (!isSupportedLanguage(languageId)) {
+    throw new Error(`Language "${languageId}" is not supported`);
+  }
+  if (!isFormattableLanguage(languageId)) {
+    return { text, groups: [] };
+  }
+
+  const wasmDir =
+    options.wasmDir ??
+    path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+  const parserService = await getParser(wasmDir);
+
+  const document = new TextDocumentAdapter(text, languageId);
+  const tokens = await parserService.parse(
+    document,
+    0,
+    document.lineCount - 1
+  );
+  let groups = groupTokens(tokens);
+  if (options.range) {
+    groups = filterGroupsInRange(
+      groups,
+      options.range.start,
+      options.range.end
+    );
+  }
+
+  return {
+    text: applyPaddingOps(text, calculatePaddingOps(groups)),
+    groups,
+  };
+}
+
+/**
+ * Releases the parsers created by alignText.
+ * Later calls create new ones.
+ */
+export async function disposeParsers(): Promise<void> {
+  const pending = [...parsers.values()];
+  parsers.clear();
+  for (const parser of pending) {
+    try {
+      (await parser).dispose();
+    } catch {
+      // Initialization failed; nothing to release
+    }
+  }
+}
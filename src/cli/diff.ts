@@ -0,0 +1,90 @@
+/**
+ * Unified diff output for the CLI.
+ *
+ * Alignment only changes whitespace within lines, never the number of lines,
+ * so old and new line N always correspond and no general diff is needed.
+ */
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/**
+ * Splits text into lines, without the empty "line" after a final newline.
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ * Returns an empty string when they are identical.
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  oldText: string,
+  newText: string
+): string {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  if (oldLines.length !== newLines.length) {
+    throw new Error(`${fileName}: line count changed while aligning`);
+  }
+
+  const changed: number[] = [];
+  for (let i = 0; i < oldLines.length; i++) {
+    if (oldLines[i] !== newLines[i]) {
+      changed.push(i);
+    }
+  }
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Merge changes whose context would overlap into one hunk
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const line of changed) {
+    const start = Math.max(0, line - CONTEXT_LINES);
+    const end = Math.min(oldLines.length - 1, line + CONTEXT_LINES);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  for (const hunk of hunks) {
+    const length = hunk.end - hunk.start + 1;
+    const range = `${hunk.start + 1},${length}`;
+    output.push(`@@ -${range} +${range} @@`);
+
+    let i = hunk.start;
+    while (i <= hunk.end) {
+      if (oldLines[i] === newLines[i]) {
+        output.push(` ${oldLines[i]}`);
+        i++;
+        continue;
+      }
+
+      // A run of changed lines: all removals, then all additions
+      let runEnd = i;
+      while (runEnd <= hunk.end && oldLines[runEnd] !== newLines[runEnd]) {
+        runEnd++;
+      }
+      for (let j = i; j < runEnd; j++) {
+        output.push(`-${oldLines[j]}`);
+      }
+      for (let j = i; j < runEnd; j++) {
+        output.push(`+${newLines[j]}`);
+      }
+      i = runEnd;
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,225 @@
+/**
+ * File discovery and configuration for the CLI.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isSupportedLanguage, SupportedLanguage } from "../core/types";
+
+/** Config file looked up in the working directory when --config is not given */
+export const DEFAULT_CONFIG_FILE = ".virtual-align.json";
+
+/** Directories never searched when expanding globs */
+const IGNORED_DIRS = new Set(["node_modules", ".git"]);
+
+/** Maps file extensions to language IDs (same IDs as VS Code) */
+export const EXT_TO_LANG: Record<string, string> = {
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "typescriptreact",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascriptreact",
+  json: "json",
+  jsonc: "jsonc",
+  json5: "json5",
+  yaml: "yaml",
+  yml: "yaml",
+  py: "python",
+  css: "css",
+  scss: "scss",
+  less: "less",
+  md: "markdown",
+  mdx: "mdx",
+  sql: "sql",
+  go: "go",
+  rs: "rust",
+  toml: "toml",
+  env: "dotenv",
+  ini: "ini",
+  properties: "properties",
+  hcl: "hcl",
+  tf: "terraform",
+  tfvars: "terraform",
+  proto: "proto",
+  graphql: "graphql",
+  gql: "graphql",
+  c: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  cxx: "cpp",
+  h: "cpp",
+  hpp: "cpp",
+  vue: "vue",
+  svelte: "svelte",
+  astro: "astro",
+  html: "html",
+  htm: "html",
+  xml: "xml",
+  svg: "xml",
+};
+
+/** Maps file names that have no usable extension to language IDs */
+const FILENAME_TO_LANG: Record<string, string> = {
+  ".env": "dotenv",
+  ".editorconfig": "properties",
+};
+
+/**
+ * CLI configuration, mirroring the extension settings.
+ */
+export interface CliConfig {
+  /** Languages set to false are skipped, like the extension setting */
+  enabledLanguages: Record<string, boolean>;
+}
+
+/**
+ * Loads the CLI config.
+ *
+ * Accepts either `enabledLanguages` or the extension's setting name
+ * `evenBetterVirtualAlign.enabledLanguages`, so a plain JSON copy of the
+ * workspace settings works as-is. A missing default config file is not an error.
+ */
+export function loadConfig(configPath?: string): CliConfig {
+  const file = configPath ?? DEFAULT_CONFIG_FILE;
+  if (!configPath && !fs.existsSync(file)) {
+    return { enabledLanguages: {} };
+  }
+
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<
+    string,
+    unknown
+  >;
+  const enabledLanguages =
+    raw.enabledLanguages ?? raw["evenBetterVirtualAlign.enabledLanguages"];
+
+  if (enabledLanguages === undefined) {
+    return { enabledLanguages: {} };
+  }
+  if (typeof enabledLanguages !== "object" || enabledLanguages === null) {
+    throw new Error(`${file}: enabledLanguages must be an object`);
+  }
+  return { enabledLanguages: enabledLanguages as Record<string, boolean> };
+}
+
+/**
+ * Gets the language ID for a file path, or null when it isn't supported.
+ */
+export function getLanguageForFile(filePath: string): SupportedLanguage | null {
+  const name = path.basename(filePath).toLowerCase();
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  // `.env.local`, `.env.production` etc. are dotenv files too
+  const languageId =
+    FILENAME_TO_LANG[name] ??
+    (name.startsWith(".env.") ? "dotenv" : EXT_TO_LANG[ext]);
+  return languageId && isSupportedLanguage(languageId) ? languageId : null;
+}
+
+/**
+ * Converts a glob pattern to a regular expression over "/"-separated paths.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inBraces = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inBraces = true;
+      source += "(?:";
+    } else if (char === "}" && inBraces) {
+      inBraces = false;
+      source += ")";
+    } else if (char === "," && inBraces) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Converts a path to "/" separators so globs match on every platform.
+ */
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Lists files below a directory, skipping ignored and hidden directories.
+ */
+function walk(dir: string, files: string[]): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith(".")) {
+        walk(entryPath, files);
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+}
+
+/**
+ * Expands file paths, directories and globs into a sorted list of files.
+ *
+ * Directories and globs only yield files in supported languages; a file
+ * named explicitly is always returned so the caller can report it.
+ */
+export function expandPatterns(patterns: string[], cwd: string): string[] {
+  const found = new Set<string>();
+
+  for (const pattern of patterns) {
+    const absolute = path.resolve(cwd, pattern);
+
+    if (fs.existsSync(absolute) && fs.statSync(absolute).isFile()) {
+      found.add(absolute);
+      continue;
+    }
+
+    let files: string[] = [];
+
+    if (fs.existsSync(absolute) && fs.statSync(absolute).isDirectory()) {
+      walk(absolute, files);
+    } else {
+      // Walk from the longest literal directory prefix of the glob
+      const segments = pattern.split(/[\\/]/);
+      const firstGlob = segments.findIndex((s) => /[*?{]/.test(s));
+      const base = path.resolve(
+        cwd,
+        segments.slice(0, firstGlob < 0 ? segments.length : firstGlob).join("/")
+      );
+      if (fs.existsSync(base) && fs.statSync(base).isDirectory()) {
+        walk(base, files);
+      }
+      const matcher = globToRegExp(toPosix(absolute));
+      files = files.filter((f) => matcher.test(toPosix(f)));
+    }
+
+    for (const file of files) {
+      if (getLanguageForFile(file)) {
+        found.add(file);
+      }
+    }
+  }
+
+  return [...found].sort();
+}
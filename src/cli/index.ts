@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for checking or writing alignment outside VS Code.
+ *
+ * Usage: virtual-align (--check | --write) [--config <file>] <paths/globs...>
+ *
+ * --check prints a unified diff for every misaligned file and exits with 1.
+ * --write rewrites misaligned files in place.
+ * Languages disabled in the config file's `enabledLanguages` are skipped, and
+ * so are virtual-only languages (dotenv).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { alignText, disposeParsers, isFormattableLanguage } from "../align";
+import { createUnifiedDiff } from "./diff";
+import { expandPatterns, getLanguageForFile, loadConfig } from "./files";
+
+/** Exit code when files are (or were) misaligned in --check mode */
+const EXIT_MISALIGNED = 1;
+
+/** Exit code for usage, config and I/O errors */
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: virtual-align (--check | --write) [options] <paths/globs...>
+
+Options:
+  --check          Print diffs for misaligned files and exit with 1
+  --write          Rewrite misaligned files in place
+  --config <file>  Config file (default: .virtual-align.json if present)
+  --help           Show this message`;
+
+interface CliOptions {
+  mode: "check" | "write";
+  configPath?: string;
+  patterns: string[];
+}
+
+/**
+ * Parses command-line arguments.
+ * Returns null for --help and throws on invalid input.
+ */
+function parseArgs(args: string[]): CliOptions | null {
+  let mode: CliOptions["mode"] | undefined;
+  let configPath: string | undefined;
+  const patterns: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") {
+      return null;
+    } else if (arg === "--check" || arg === "--write") {
+      const argMode = arg === "--check" ? "check" : "write";
+      if (mode && mode !== argMode) {
+        throw new Error("--check and --write cannot be combined");
+      }
+      mode = argMode;
+    } else if (arg === "--config") {
+      configPath = args[++i];
+      if (!configPath) {
+        throw new Error("--config needs a file path");
+      }
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      patterns.push(arg);
+    }
+  }
+
+  if (!mode) {
+    throw new Error("Either --check or --write is required");
+  }
+  if (patterns.length === 0) {
+    throw new Error("No files given");
+  }
+  return { mode, configPath, patterns };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions | null;
+  let enabledLanguages: Record<string, boolean>;
+  try {
+    options = parseArgs(args);
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    enabledLanguages = loadConfig(options.configPath).enabledLanguages;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`virtual-align: ${errorMsg}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  const cwd = process.cwd();
+  const files = expandPatterns(options.patterns, cwd);
+  if (files.length === 0) {
+    console.error("virtual-align: No matching files");
+    return EXIT_ERROR;
+  }
+
+  let misaligned = 0;
+  let failed = 0;
+
+  try {
+    for (const file of files) {
+      const relativePath = path.relative(cwd, file).split(path.sep).join("/");
+      const languageId = getLanguageForFile(file);
+      if (!languageId) {
+        console.error(`virtual-align: Skipping unsupported file ${relativePath}`);
+        continue;
+      }
+      if (
+        enabledLanguages[languageId] === false ||
+        !isFormattableLanguage(languageId)
+      ) {
+        continue;
+      }
+
+      try {
+        const text = fs.readFileSync(file, "utf-8");
+        const aligned = (await alignText(text, languageId)).text;
+        if (aligned === text) {
+          continue;
+        }
+
+        misaligned++;
+        if (options.mode === "check") {
+          process.stdout.write(createUnifiedDiff(relativePath, text, aligned));
+        } else {
+          fs.writeFileSync(file, aligned);
+          console.log(`Aligned ${relativePath}`);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`virtual-align: ${relativePath}: ${errorMsg}`);
+        failed++;
+      }
+    }
+  } finally {
+    await disposeParsers();
+  }
+
+  if (failed > 0) {
+    return EXIT_ERROR;
+  }
+  if (options.mode === "check" && misaligned > 0) {
+    console.error(`virtual-align: ${misaligned} file(s) are not aligned`);
+    return EXIT_MISALIGNED;
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("virtual-align:", error);
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -0,0 +1,42 @@
+/**
+ * Notebook cells: which documents the extension aligns.
+ *
+ * Every notebook cell is a text document of its own. Its URI uses the
+ * `vscode-notebook-cell` scheme, and its language is the kernel's for code
+ * cells (`python` in Jupyter) or `markdown` for Markdown cells.
+ */
+
+import { isSupportedLanguage } from "./types";
+
+/** URI scheme of the text documents behind notebook cells */
+export const NOTEBOOK_CELL_SCHEME = "vscode-notebook-cell";
+
+/** Settings that decide whether a document is aligned */
+export interface AlignmentSettings {
+  /** Languages set to false are never aligned */
+  enabledLanguages: Record<string, boolean>;
+  /** Whether Markdown cells of notebooks align their code fences */
+  notebookMarkdownCells: boolean;
+}
+
+/**
+ * Checks whether a document should be aligned.
+ * Notebook code cells follow their language like any other document;
+ * Markdown cells are opt-in, since they are mostly read rendered.
+ */
+export function shouldAlignDocument(
+  document: { languageId: string; uriScheme: string },
+  settings: AlignmentSettings
+): boolean {
+  const { languageId, uriScheme } = document;
+  if (
+    !isSupportedLanguage(languageId) ||
+    settings.enabledLanguages[languageId] === false
+  ) {
+    return false;
+  }
+  if (uriScheme === NOTEBOOK_CELL_SCHEME && languageId === "markdown") {
+    return settings.notebookMarkdownCells;
+  }
+  return true;
+}
@@ -8,6 +8,11 @@
  * Allows ParserService to work with VS Code documents or plain strings.
  */
 export interface ParseableDocument {
+  /**
+   * Stable document identifier (e.g., a URI string).
+   * When present, ParserService keeps an incremental parse cache for it.
+   */
+  readonly uri?: string;
   /** Language identifier (e.g., "typescript", "json") */
   readonly languageId: string;
   /** Get the full text content */
@@ -18,6 +23,36 @@ export interface ParseableDocument {
   lineAt(line: number): { text: string };
 }
 
+/** An inclusive range of lines (0-indexed) */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** A position in a document (0-indexed, UTF-16 code units like VS Code) */
+export interface DocumentPosition {
+  readonly line: number;
+  readonly character: number;
+}
+
+/**
+ * A single text change, shaped like vscode.TextDocumentContentChangeEvent
+ * so `event.contentChanges` can be passed through as-is.
+ */
+export interface DocumentChange {
+  /** Range that was replaced, in pre-change coordinates */
+  readonly range: {
+    readonly start: DocumentPosition;
+    readonly end: DocumentPosition;
+  };
+  /** Offset of the replaced range */
+  readonly rangeOffset: number;
+  /** Length of the replaced range */
+  readonly rangeLength: number;
+  /** New text for the range */
+  readonly text: string;
+}
+
 /**
  * Configuration for ParserService.
  * Decouples from VS Code ExtensionContext.
@@ -30,6 +65,7 @@ export interface ParserConfig {
 /** Supported operator types across all languages */
 export type OperatorType =
   | "="
+  | "=>"
   | ":"
   | ","
   | "}"
@@ -38,7 +74,11 @@ export type OperatorType =
   | "and"
   | "or"
   | "//"
-  | "funcArg"; // Function argument value (for right-alignment)
+  | "funcArg" // Function argument value (for right-alignment)
+  | "cell"; // Start of a gofmt cell (padded before); empty text = empty cell
+
+/** Alignment of a table column, from its delimiter row */
+export type CellAlignment = "left" | "right" | "center";
 
 /** A single alignable operator found in the document */
 export interface AlignmentToken {
@@ -60,6 +100,17 @@ export interface AlignmentToken {
   scopeId: string;
   /** Total number of operators on this line (for shape-based grouping) */
   operatorCountOnLine: number;
+  /**
+   * Table separators only: alignment of the cell this `|` closes and the
+   * column its content starts at. Right and center cells take some or all
+   * of their padding before the content instead of before the `|`.
+   * Delimiter rows (`|---|`) don't decide whether a table is compact.
+   */
+  cellAlign?: {
+    align: CellAlignment;
+    contentColumn: number;
+    delimiterRow: boolean;
+  };
 }
 
 /** A group of tokens that should be aligned together */
@@ -82,29 +133,73 @@ export interface AlignmentGroup {
 export type SupportedLanguage =
   | "typescript"
   | "typescriptreact"
+  | "javascript"
+  | "javascriptreact"
   | "json"
   | "jsonc"
+  | "json5"
   | "yaml"
   | "python"
   | "css"
   | "scss"
   | "less"
   | "markdown"
-  | "sql";
+  | "mdx"
+  | "sql"
+  | "go"
+  | "rust"
+  | "toml"
+  | "dotenv"
+  | "ini"
+  | "properties"
+  | "hcl"
+  | "terraform"
+  | "proto"
+  | "proto3"
+  | "graphql"
+  | "c"
+  | "cpp"
+  | "vue"
+  | "svelte"
+  | "astro"
+  | "html"
+  | "xml";
 
 /** All supported languages for configuration */
 export const ALL_SUPPORTED_LANGUAGES: SupportedLanguage[] = [
   "typescript",
   "typescriptreact",
+  "javascript",
+  "javascriptreact",
   "json",
   "jsonc",
+  "json5",
   "yaml",
   "python",
   "css",
   "scss",
   "less",
   "markdown",
+  "mdx",
   "sql",
+  "go",
+  "rust",
+  "toml",
+  "dotenv",
+  "ini",
+  "properties",
+  "hcl",
+  "terraform",
+  "proto",
+  "proto3",
+  "graphql",
+  "c",
+  "cpp",
+  "vue",
+  "svelte",
+  "astro",
+  "html",
+  "xml",
 ];
 
 /** Check if a language ID is supported */
@@ -114,6 +209,19 @@ export function isSupportedLanguage(
   return ALL_SUPPORTED_LANGUAGES.includes(langId as SupportedLanguage);
 }
 
+/**
+ * Languages aligned with decorations only. Shells and Docker's --env-file
+ * reject whitespace around a dotenv `=`, so padding is never written.
+ */
+export const VIRTUAL_ONLY_LANGUAGES: SupportedLanguage[] = ["dotenv"];
+
+/** Check if a language ID may be formatted by writing padding to the file */
+export function isFormattableLanguage(langId: string): boolean {
+  return (
+    isSupportedLanguage(langId) && !VIRTUAL_ONLY_LANGUAGES.includes(langId)
+  );
+}
+
 /** Map VS Code language IDs to parser language keys */
 export function getParserLanguage(langId: SupportedLanguage): string {
   switch (langId) {
@@ -121,8 +229,12 @@ export function getParserLanguage(langId: SupportedLanguage): string {
       return "typescript";
     case "typescriptreact":
       return "tsx"; // TSX needs its own parser for JSX syntax
+    case "javascript":
+    case "javascriptreact":
+      return "tsx"; // TSX grammar parses plain JS, and .js files often contain JSX
     case "json":
     case "jsonc":
+    case "json5":
       return "json";
     case "yaml":
       return "yaml";
@@ -133,8 +245,37 @@ export function getParserLanguage(langId: SupportedLanguage): string {
     case "less":
       return "css"; // CSS grammar handles all CSS-like languages
     case "markdown":
+    case "mdx":
       return "markdown"; // Special handling - parses code blocks
     case "sql":
       return "sql";
+    case "go":
+      return "go";
+    case "rust":
+      return "rust";
+    case "toml":
+      return "toml";
+    case "dotenv":
+    case "ini":
+    case "properties":
+      return langId; // Line-based key/value parser, one dialect each
+    case "hcl":
+    case "terraform":
+      return "hcl";
+    case "proto":
+    case "proto3":
+      return "proto";
+    case "graphql":
+      return "graphql";
+    case "c":
+    case "cpp":
+      return "cpp"; // C++ grammar parses C too
+    case "vue":
+    case "svelte":
+    case "astro":
+      return "component"; // Special handling - parses script and style blocks
+    case "html":
+    case "xml":
+      return "markup"; // Line-based attribute scanner
   }
 }
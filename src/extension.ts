@@ -8,8 +8,18 @@
 import * as path from "path";
 import * as vscode from "vscode";
 import { VSCodeDocumentAdapter } from "./adapters/VSCodeDocumentAdapter";
-import { isSupportedLanguage } from "./core/types";
-import { groupTokens } from "./logic/Grouper";
+import {
+  ALL_SUPPORTED_LANGUAGES,
+  AlignmentGroup,
+  isFormattableLanguage,
+  isSupportedLanguage,
+  LineRange,
+} from "./core/types";
+import { AlignmentSettings, shouldAlignDocument } from "./core/notebook";
+import { calculateCollapseOps } from "./logic/Formatter";
+import { filterGroupsInRange, groupTokens } from "./logic/Grouper";
+import { calculatePaddingOps, PaddingOp } from "./logic/Layout";
+import { alignViewport, DocumentAlignment } from "./logic/Viewport";
 import { ParserService } from "./parsing/ParserService";
 import { debounce } from "./utils/debounce";
 import { DecorationManager } from "./view/DecorationManager";
@@ -17,12 +27,24 @@ import { DecorationManager } from "./view/DecorationManager";
 /** Debounce delay in milliseconds */
 const DEBOUNCE_MS = 100;
 
+/** How formatting rewrites whitespace: insert padding or strip it */
+type FormatMode = "align" | "remove";
+
+/** Extra lines aligned above and below the visible ranges */
+const VIEWPORT_MARGIN = 100;
+
 let parserService: ParserService;
 let decorationManager: DecorationManager;
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
 let enabled = true;
 
+/** Alignment state per document URI */
+const alignments = new Map<string, DocumentAlignment>();
+
+/** Editors waiting for the next debounced update */
+const pendingEditors = new Set<vscode.TextEditor>();
+
 /**
  * Updates the status bar item to reflect current state.
  */
@@ -46,12 +68,20 @@ function log(message: string): void {
   outputChannel.appendLine(`[${timestamp}] ${message}`);
 }
 
+/**
+ * API returned by activate, used by the integration tests.
+ */
+export interface ExtensionApi {
+  /** Gets the padding currently shown in an editor */
+  getPadding(editor: vscode.TextEditor): PaddingOp[];
+}
+
 /**
  * Activates the extension.
  */
 export async function activate(
   context: vscode.ExtensionContext
-): Promise<void> {
+): Promise<ExtensionApi | undefined> {
   // Create output channel for logging
   outputChannel = vscode.window.createOutputChannel(
     "Even Better Virtual Align"
@@ -102,7 +132,13 @@ export async function activate(
   }
 
   // Create debounced update function
-  const debouncedUpdate = debounce(updateEditor, DEBOUNCE_MS);
+  const debouncedFlush = debounce(flushPendingEditors, DEBOUNCE_MS);
+  const scheduleUpdate = (editors: readonly vscode.TextEditor[]) => {
+    for (const editor of editors) {
+      pendingEditors.add(editor);
+    }
+    debouncedFlush();
+  };
 
   // Register toggle command
   const toggleCommand = vscode.commands.registerCommand(
@@ -115,9 +151,7 @@ export async function activate(
         vscode.window.showInformationMessage(
           "Even Better Virtual Align: Enabled"
         );
-        if (vscode.window.activeTextEditor) {
-          debouncedUpdate(vscode.window.activeTextEditor);
-        }
+        scheduleUpdate(vscode.window.visibleTextEditors);
       } else {
         vscode.window.showInformationMessage(
           "Even Better Virtual Align: Disabled"
@@ -139,9 +173,7 @@ export async function activate(
         vscode.window.showInformationMessage(
           "Even Better Virtual Align: Enabled"
         );
-        if (vscode.window.activeTextEditor) {
-          debouncedUpdate(vscode.window.activeTextEditor);
-        }
+        scheduleUpdate(vscode.window.visibleTextEditors);
       }
     }
   );
@@ -167,266 +199,356 @@ export async function activate(
   // Register format command - applies alignment as actual text edits
   const formatCommand = vscode.commands.registerCommand(
     "even-better-virtual-align.format",
-    async () => {
-      const editor = vscode.window.activeTextEditor;
-      if (!editor) {
-        vscode.window.showWarningMessage("No active editor");
-        return;
-      }
-
-      const document = editor.document;
-      const langId = document.languageId;
+    () => formatActiveEditor("align")
+  );
+  context.subscriptions.push(formatCommand);
 
-      if (!isSupportedLanguage(langId)) {
-        vscode.window.showWarningMessage(
-          `Even Better Virtual Align: Language "${langId}" is not supported`
-        );
-        return;
+  // Register remove command - strips alignment padding back to single spaces
+  const removeAlignmentCommand = vscode.commands.registerCommand(
+    "even-better-virtual-align.removeAlignment",
+    () => formatActiveEditor("remove")
+  );
+  context.subscriptions.push(removeAlignmentCommand);
+
+  // Register formatters so alignment works with Format Document/Selection,
+  // editor.formatOnSave and editor.defaultFormatter. Virtual-only languages
+  // get no formatter, so saving never writes padding into them.
+  const formatterSelector = ALL_SUPPORTED_LANGUAGES.filter(
+    isFormattableLanguage
+  ).map((language) => ({ language }));
+
+  const formattingProvider =
+    vscode.languages.registerDocumentFormattingEditProvider(
+      formatterSelector,
+      {
+        provideDocumentFormattingEdits: (document) =>
+          provideFormattingEdits(document),
       }
-
-      try {
-        // Parse document
-        const docAdapter = new VSCodeDocumentAdapter(document);
-        const tokens = await parserService.parse(
-          docAdapter,
-          0,
-          document.lineCount - 1
-        );
-        const groups = groupTokens(tokens);
-
-        if (groups.length === 0) {
-          vscode.window.showInformationMessage("No alignable content found");
-          return;
+    );
+  context.subscriptions.push(formattingProvider);
+
+  const rangeFormattingProvider =
+    vscode.languages.registerDocumentRangeFormattingEditProvider(
+      formatterSelector,
+      {
+        provideDocumentRangeFormattingEdits: (document, range) =>
+          provideFormattingEdits(document, range),
+      }
+    );
+  context.subscriptions.push(rangeFormattingProvider);
+
+  // Listen for visible editor changes (split panes, diffs, tab switches)
+  const visibleEditorsDisposable = vscode.window.onDidChangeVisibleTextEditors(
+    (editors) => {
+      decorationManager.retain(editors);
+      for (const editor of pendingEditors) {
+        if (!editors.includes(editor)) {
+          pendingEditors.delete(editor);
         }
+      }
+      if (enabled) {
+        scheduleUpdate(editors);
+      }
+    }
+  );
+  context.subscriptions.push(visibleEditorsDisposable);
 
-        // Calculate padding operations
-        const paddingOps = calculatePaddingOps(document, groups);
-
-        if (paddingOps.length === 0) {
-          vscode.window.showInformationMessage("Content is already aligned");
-          return;
-        }
+  // Listen for document changes
+  const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument(
+    (event) => {
+      // Keep the cached syntax tree in sync for incremental reparsing
+      parserService.applyEdits(
+        event.document.uri.toString(),
+        event.contentChanges
+      );
 
-        // Apply edits
-        const success = await editor.edit((editBuilder) => {
-          // Sort by line desc, then column desc to apply from end to start
-          const sorted = [...paddingOps].sort((a, b) => {
-            if (a.line !== b.line) return b.line - a.line;
-            return b.column - a.column;
-          });
-
-          for (const op of sorted) {
-            const position = new vscode.Position(op.line, op.column);
-            editBuilder.insert(position, " ".repeat(op.spaces));
-          }
-        });
-
-        if (success) {
-          log(`Applied ${paddingOps.length} alignment edits`);
-          vscode.window.showInformationMessage(
-            `Applied ${paddingOps.length} alignment edits`
-          );
-        } else {
-          vscode.window.showErrorMessage("Failed to apply formatting");
-        }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        log(`Format failed: ${errorMsg}`);
-        vscode.window.showErrorMessage(`Format failed: ${errorMsg}`);
+      if (enabled) {
+        scheduleUpdate(
+          vscode.window.visibleTextEditors.filter(
+            (editor) => editor.document === event.document
+          )
+        );
       }
     }
   );
-  context.subscriptions.push(formatCommand);
+  context.subscriptions.push(documentChangeDisposable);
 
-  // Listen for active editor changes
-  const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor(
-    (editor) => {
-      if (editor && enabled) {
-        debouncedUpdate(editor);
-      }
+  // Drop cached parse state for closed documents
+  const documentCloseDisposable = vscode.workspace.onDidCloseTextDocument(
+    (document) => {
+      const uri = document.uri.toString();
+      parserService.closeDocument(uri);
+      alignments.delete(uri);
     }
   );
-  context.subscriptions.push(activeEditorDisposable);
+  context.subscriptions.push(documentCloseDisposable);
 
-  // Listen for document changes
-  const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument(
+  // Re-align when languages or notebook Markdown cells are switched on or off
+  const configurationDisposable = vscode.workspace.onDidChangeConfiguration(
     (event) => {
-      const editor = vscode.window.activeTextEditor;
-      if (editor && enabled && event.document === editor.document) {
-        debouncedUpdate(editor);
+      if (enabled && event.affectsConfiguration("evenBetterVirtualAlign")) {
+        scheduleUpdate(vscode.window.visibleTextEditors);
       }
     }
   );
-  context.subscriptions.push(documentChangeDisposable);
+  context.subscriptions.push(configurationDisposable);
 
-  // Initial update for active editor
-  if (vscode.window.activeTextEditor) {
-    debouncedUpdate(vscode.window.activeTextEditor);
-  }
+  // Align newly visible lines when scrolling
+  const visibleRangesDisposable =
+    vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+      if (enabled) {
+        scheduleUpdate([event.textEditor]);
+      }
+    });
+  context.subscriptions.push(visibleRangesDisposable);
+
+  // Initial update for all visible editors
+  scheduleUpdate(vscode.window.visibleTextEditors);
 
   log("Activated successfully");
+
+  return {
+    getPadding: (editor) => decorationManager.getPadding(editor),
+  };
 }
 
 /**
- * Padding operation for applying alignment as text edits.
+ * Parses a whole document and groups its tokens for physical formatting.
+ * With a range, only groups that intersect it are kept.
  */
-interface PaddingOp {
-  line: number;
-  column: number;
-  spaces: number;
+async function getFormattingGroups(
+  document: vscode.TextDocument,
+  range?: vscode.Range
+): Promise<AlignmentGroup[]> {
+  const docAdapter = new VSCodeDocumentAdapter(document);
+  const tokens = await parserService.parse(
+    docAdapter,
+    0,
+    document.lineCount - 1
+  );
+  const groups = groupTokens(tokens);
+
+  return range
+    ? filterGroupsInRange(groups, range.start.line, range.end.line)
+    : groups;
 }
 
 /**
- * Counts the number of consecutive spaces starting at a given column in a line.
+ * Converts groups into text edits that add or remove alignment padding.
  */
-function countExistingSpaces(lineText: string, column: number): number {
-  let count = 0;
-  for (let i = column; i < lineText.length && lineText[i] === " "; i++) {
-    count++;
+function createFormattingEdits(
+  document: vscode.TextDocument,
+  groups: AlignmentGroup[],
+  mode: FormatMode
+): vscode.TextEdit[] {
+  const docAdapter = new VSCodeDocumentAdapter(document);
+
+  if (mode === "remove") {
+    return calculateCollapseOps(docAdapter, groups).map((op) =>
+      vscode.TextEdit.replace(
+        new vscode.Range(op.line, op.startColumn, op.line, op.endColumn),
+        " ".repeat(op.spaces)
+      )
+    );
   }
-  return count;
+
+  return calculatePaddingOps(groups).map((op) =>
+    vscode.TextEdit.insert(
+      new vscode.Position(op.line, op.column),
+      " ".repeat(op.spaces)
+    )
+  );
 }
 
 /**
- * Calculates padding operations to apply alignment as actual text.
- * This version accounts for existing whitespace to make the operation idempotent.
+ * Applies or removes alignment in the active editor (command handler).
  */
-function calculatePaddingOps(
-  document: vscode.TextDocument,
-  groups: ReturnType<typeof groupTokens>
-): PaddingOp[] {
-  // Sort groups by line then column
-  const sortedGroups = [...groups].sort((a, b) => {
-    if (a.tokens[0].line !== b.tokens[0].line) {
-      return a.tokens[0].line - b.tokens[0].line;
-    }
-    return a.tokens[0].column - b.tokens[0].column;
-  });
+async function formatActiveEditor(mode: FormatMode): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("No active editor");
+    return;
+  }
+
+  const document = editor.document;
+  const langId = document.languageId;
 
-  // Cache line texts
-  const lineTexts: string[] = [];
-  for (let i = 0; i < document.lineCount; i++) {
-    lineTexts.push(document.lineAt(i).text);
+  if (!isSupportedLanguage(langId)) {
+    vscode.window.showWarningMessage(
+      `Even Better Virtual Align: Language "${langId}" is not supported`
+    );
+    return;
   }
 
-  const lineShift = new Map<number, number>();
-  const paddingOps: PaddingOp[] = [];
+  if (!isFormattableLanguage(langId)) {
+    vscode.window.showWarningMessage(
+      `Even Better Virtual Align: Language "${langId}" is only aligned visually`
+    );
+    return;
+  }
 
-  for (const group of sortedGroups) {
-    let visualTargetColumn: number;
+  try {
+    // Parse document
+    const groups = await getFormattingGroups(document);
 
-    if (group.tokens.length === 1) {
-      const token = group.tokens[0];
-      const shift = lineShift.get(token.line) ?? 0;
-      if (group.padAfter) {
-        const originalEndColumn = token.column + token.text.length;
-        const originalPadding = group.targetColumn - originalEndColumn;
-        visualTargetColumn = originalEndColumn + shift + originalPadding;
-      } else {
-        const originalPadding = group.targetColumn - token.column;
-        visualTargetColumn = token.column + shift + originalPadding;
-      }
-    } else if (group.padAfter) {
-      visualTargetColumn = Math.max(
-        ...group.tokens.map((t) => {
-          const shift = lineShift.get(t.line) ?? 0;
-          return t.column + t.text.length + shift;
-        })
-      );
-    } else {
-      visualTargetColumn = Math.max(
-        ...group.tokens.map((t) => {
-          const shift = lineShift.get(t.line) ?? 0;
-          return t.column + shift;
-        })
-      );
+    if (groups.length === 0) {
+      vscode.window.showInformationMessage("No alignable content found");
+      return;
     }
 
-    for (const token of group.tokens) {
-      const shift = lineShift.get(token.line) ?? 0;
-      let spacesNeeded: number;
-      let insertColumn: number;
+    // Calculate whitespace edits
+    const edits = createFormattingEdits(document, groups, mode);
 
-      if (group.padAfter) {
-        const visualEndColumn = token.column + token.text.length + shift;
-        spacesNeeded = visualTargetColumn - visualEndColumn;
-        insertColumn = token.column + token.text.length;
-      } else {
-        const visualColumn = token.column + shift;
-        spacesNeeded = visualTargetColumn - visualColumn;
-        insertColumn = token.column;
-      }
+    if (edits.length === 0) {
+      vscode.window.showInformationMessage(
+        mode === "align"
+          ? "Content is already aligned"
+          : "Content has no alignment padding"
+      );
+      return;
+    }
 
-      if (spacesNeeded > 0) {
-        // Check for existing spaces at the insertion point
-        const lineText = lineTexts[token.line];
-        const existingSpaces = countExistingSpaces(lineText, insertColumn);
-
-        // Only skip if there's already MORE spaces than needed (already over-padded or correctly aligned)
-        // If existing <= spacesNeeded, we need to add the full amount since existing is likely just baseline spacing
-        if (existingSpaces <= spacesNeeded) {
-          paddingOps.push({
-            line: token.line,
-            column: insertColumn,
-            spaces: spacesNeeded,
-          });
-          lineShift.set(
-            token.line,
-            (lineShift.get(token.line) ?? 0) + spacesNeeded
-          );
-        }
-        // If existingSpaces > spacesNeeded, skip (already has sufficient padding)
+    // Apply edits
+    const success = await editor.edit((editBuilder) => {
+      for (const edit of edits) {
+        editBuilder.replace(edit.range, edit.newText);
       }
+    });
+
+    if (success) {
+      const message =
+        mode === "align"
+          ? `Applied ${edits.length} alignment edits`
+          : `Removed alignment padding in ${edits.length} places`;
+      log(message);
+      vscode.window.showInformationMessage(message);
+    } else {
+      vscode.window.showErrorMessage("Failed to apply formatting");
     }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    log(`Format failed: ${errorMsg}`);
+    vscode.window.showErrorMessage(`Format failed: ${errorMsg}`);
+  }
+}
+
+/**
+ * Shared implementation of the document and range formatting providers.
+ */
+async function provideFormattingEdits(
+  document: vscode.TextDocument,
+  range?: vscode.Range
+): Promise<vscode.TextEdit[]> {
+  // Format on save must leave disabled languages and cells untouched
+  if (!isAlignmentEnabled(document)) {
+    return [];
   }
 
-  return paddingOps;
+  try {
+    const config = vscode.workspace.getConfiguration("evenBetterVirtualAlign");
+    const mode = config.get<FormatMode>("formatMode", "align");
+    const groups = await getFormattingGroups(document, range);
+    const edits = createFormattingEdits(document, groups, mode);
+    log(`Formatter produced ${edits.length} alignment edits`);
+    return edits;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    log(`Format failed: ${errorMsg}`);
+    return [];
+  }
 }
 
 /**
- * Updates alignment decorations for an editor.
+ * Gets the lines to align for an editor: its visible ranges plus a margin.
+ * Falls back to the whole document when nothing is visible.
  */
-async function updateEditor(editor: vscode.TextEditor): Promise<void> {
-  if (!enabled) {
-    return;
+function getViewportRange(editor: vscode.TextEditor): LineRange {
+  const lastLine = editor.document.lineCount - 1;
+  const visible = editor.visibleRanges;
+  if (visible.length === 0) {
+    return { start: 0, end: lastLine };
   }
 
-  const document = editor.document;
-  const langId = document.languageId;
+  const start = Math.min(...visible.map((r) => r.start.line));
+  const end = Math.max(...visible.map((r) => r.end.line));
+  return {
+    start: Math.max(0, start - VIEWPORT_MARGIN),
+    end: Math.min(lastLine, end + VIEWPORT_MARGIN),
+  };
+}
 
-  // Check if language is supported
-  if (!isSupportedLanguage(langId)) {
-    decorationManager.clear(editor);
-    return;
+/**
+ * Updates all pending editors.
+ * Each document is aligned once and its groups are shared by every
+ * editor showing it (split panes, diffs, multiple views). Notebook cell
+ * editors are text editors too, one per cell document.
+ */
+async function flushPendingEditors(): Promise<void> {
+  const editorsByDocument = new Map<
+    vscode.TextDocument,
+    vscode.TextEditor[]
+  >();
+  for (const editor of pendingEditors) {
+    const editors = editorsByDocument.get(editor.document) ?? [];
+    editors.push(editor);
+    editorsByDocument.set(editor.document, editors);
+  }
+  pendingEditors.clear();
+
+  for (const [document, editors] of editorsByDocument) {
+    await updateDocument(document, editors);
   }
+}
 
-  // Check if language is enabled in settings
+/**
+ * Checks the document's language is supported and enabled in settings;
+ * notebook cells are documents too, with their own URI scheme.
+ */
+function isAlignmentEnabled(document: vscode.TextDocument): boolean {
   const config = vscode.workspace.getConfiguration("evenBetterVirtualAlign");
-  const enabledLanguages = config.get<Record<string, boolean>>(
-    "enabledLanguages",
-    {}
-  );
-  if (enabledLanguages[langId] === false) {
-    decorationManager.clear(editor);
+  const settings: AlignmentSettings = {
+    enabledLanguages: config.get<Record<string, boolean>>(
+      "enabledLanguages",
+      {}
+    ),
+    notebookMarkdownCells: config.get<boolean>("notebookMarkdownCells", false),
+  };
+  const target = {
+    languageId: document.languageId,
+    uriScheme: document.uri.scheme,
+  };
+  return shouldAlignDocument(target, settings);
+}
+
+/**
+ * Updates alignment decorations for the editors of a document.
+ */
+async function updateDocument(
+  document: vscode.TextDocument,
+  editors: vscode.TextEditor[]
+): Promise<void> {
+  if (!enabled) {
     return;
   }
 
-  // Process entire file
-  const startLine = 0;
-  const endLine = document.lineCount - 1;
+  if (!isAlignmentEnabled(document)) {
+    for (const editor of editors) {
+      decorationManager.clear(editor);
+    }
+    return;
+  }
 
   try {
-    // Wrap VS Code document with adapter for ParserService
-    const docAdapter = new VSCodeDocumentAdapter(document);
-
-    // Parse document to extract tokens
-    const tokens = await parserService.parse(docAdapter, startLine, endLine);
-
-    // Group tokens into alignment groups
-    const groups = groupTokens(tokens);
+    // Align each editor's viewport; ranges already aligned are reused
+    let alignment: DocumentAlignment | undefined;
+    for (const editor of editors) {
+      alignment = await alignRange(document, getViewportRange(editor));
+    }
 
     // Update decorations
-    decorationManager.update(editor, groups);
+    for (const editor of editors) {
+      decorationManager.update(editor, alignment?.groups ?? []);
+    }
   } catch (error) {
     log(
       `Update failed: ${error instanceof Error ? error.message : String(error)}`
@@ -434,6 +556,29 @@ async function updateEditor(editor: vscode.TextEditor): Promise<void> {
   }
 }
 
+/**
+ * Aligns the lines around a viewport and merges them into the document's
+ * alignment.
+ */
+async function alignRange(
+  document: vscode.TextDocument,
+  viewport: LineRange
+): Promise<DocumentAlignment> {
+  // Wrap VS Code document with adapter for ParserService
+  const docAdapter = new VSCodeDocumentAdapter(document);
+  const uri = document.uri.toString();
+
+  const alignment = await alignViewport(
+    docAdapter,
+    document.version,
+    viewport,
+    alignments.get(uri),
+    (start, end) => parserService.parse(docAdapter, start, end)
+  );
+  alignments.set(uri, alignment);
+  return alignment;
+}
+
 /**
  * Deactivates the extension.
  */
@@ -449,4 +594,6 @@ export function deactivate(): void {
   if (parserService) {
     parserService.dispose();
   }
+
+  alignments.clear();
 }
@@ -0,0 +1,187 @@
+/**
+ * Physical formatting: turns alignment groups into whitespace edits.
+ *
+ * Used by the format command and formatting providers to write alignment
+ * into the file (padding from the shared layout) or strip it back out
+ * (collapsing).
+ */
+
+import { AlignmentGroup, ParseableDocument } from "../core/types";
+import { PaddingOp } from "./Layout";
+
+/**
+ * Applies padding operations to text and returns the aligned text.
+ * Line endings are preserved; ops may be in any order.
+ */
+export function applyPaddingOps(text: string, ops: PaddingOp[]): string {
+  const lines = text.split("\n");
+  const sortedOps = [...ops].sort((a, b) => {
+    if (a.line !== b.line) {
+      return a.line - b.line;
+    }
+    return b.column - a.column;
+  });
+
+  // Insert right to left so earlier columns stay valid
+  for (const op of sortedOps) {
+    const lineText = lines[op.line];
+    lines[op.line] =
+      lineText.slice(0, op.column) +
+      " ".repeat(op.spaces) +
+      lineText.slice(op.column);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Whitespace replacement for removing alignment.
+ * Replaces columns [startColumn, endColumn) on a line with `spaces` spaces.
+ */
+export interface CollapseOp {
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  spaces: number;
+}
+
+/**
+ * Finds the run of spaces around a column.
+ * Returns null for indentation, which is never padding.
+ */
+function findSpaceRun(
+  lineText: string,
+  column: number
+): { start: number; end: number; trailing: boolean } | null {
+  let start = Math.min(column, lineText.length);
+  let end = start;
+  while (start > 0 && lineText[start - 1] === " ") {
+    start--;
+  }
+  while (end < lineText.length && lineText[end] === " ") {
+    end++;
+  }
+
+  if (lineText.substring(0, start).trim() === "") {
+    return null;
+  }
+  return { start, end, trailing: end >= lineText.length };
+}
+
+/**
+ * Gets the spaces a table delimiter row keeps before each `|`.
+ * Delimiter rows are written either compact (`|---|:-:|`) or spaced
+ * (`| --- | :-: |`); the space after a `|`, which alignment never pads,
+ * tells which.
+ */
+function getDelimiterRowSpacing(lineText: string): number {
+  return /\|[ \t]+[:-]/.test(lineText) ? 1 : 0;
+}
+
+/**
+ * Calculates whitespace replacements that remove alignment padding.
+ *
+ * The run of spaces at each token's padding position is collapsed to the
+ * group's smallest run: the gap its widest member had before padding. That
+ * is usually one space, none for compact style like `{id: 1}` and two
+ * before a PEP 8 inline comment, so text written by calculatePaddingOps
+ * round-trips exactly. Groups with a member whose gap is hidden collapse to
+ * at most one space. Padding at the end of a line (after a key with no
+ * value) is removed entirely. A table's delimiter row (`|---|`) keeps its
+ * own compact or spaced style.
+ */
+export function calculateCollapseOps(
+  document: ParseableDocument,
+  groups: AlignmentGroup[]
+): CollapseOp[] {
+  // Keyed by line and run start: tokens from different groups can share a run
+  const ops = new Map<string, CollapseOp>();
+  const seen = new Set<string>();
+
+  const groupRuns = groups.map((group) => {
+    const runs: Array<{
+      line: number;
+      start: number;
+      end: number;
+      trailing: boolean;
+      delimiterRow: boolean;
+    }> = [];
+
+    for (const token of group.tokens) {
+      const padColumns = [
+        group.padAfter ? token.column + token.text.length : token.column,
+      ];
+      const delimiterRow = token.cellAlign?.delimiterRow ?? false;
+      if (
+        token.cellAlign &&
+        token.cellAlign.align !== "left" &&
+        !delimiterRow
+      ) {
+        // Right and center table cells are padded before their content too
+        padColumns.push(token.cellAlign.contentColumn);
+      }
+      for (const padColumn of padColumns) {
+        const run = findSpaceRun(document.lineAt(token.line).text, padColumn);
+        if (run) {
+          runs.push({ line: token.line, ...run, delimiterRow });
+        }
+      }
+    }
+    return runs;
+  });
+
+  // A run holding the padding of several tokens (an empty cell followed by a
+  // comment) doesn't show the gap of either
+  const runCounts = new Map<string, number>();
+  for (const run of groupRuns.flat()) {
+    const key = `${run.line}:${run.start}`;
+    runCounts.set(key, (runCounts.get(key) ?? 0) + 1);
+  }
+
+  for (const runs of groupRuns) {
+    if (runs.length === 0) {
+      continue;
+    }
+
+    // The widest member kept its original gap, so it has the smallest run.
+    // A member whose gap can't be measured may be the widest one.
+    const hidden = runs.some(
+      (r) =>
+        r.trailing ||
+        r.delimiterRow ||
+        runCounts.get(`${r.line}:${r.start}`)! > 1
+    );
+    const gaps = runs
+      .filter((r) => !r.trailing && !r.delimiterRow)
+      .map((r) => r.end - r.start);
+    const spaces = Math.min(hidden ? 1 : Infinity, ...gaps);
+
+    for (const run of runs) {
+      const key = `${run.line}:${run.start}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      let target = run.trailing ? 0 : spaces;
+      if (run.delimiterRow && !run.trailing) {
+        target = getDelimiterRowSpacing(document.lineAt(run.line).text);
+      }
+      if (run.end - run.start !== target) {
+        ops.set(key, {
+          line: run.line,
+          startColumn: run.start,
+          endColumn: run.end,
+          spaces: target,
+        });
+      }
+    }
+  }
+
+  return [...ops.values()].sort((a, b) => {
+    if (a.line !== b.line) {
+      return a.line - b.line;
+    }
+    return a.startColumn - b.startColumn;
+  });
+}
@@ -2,15 +2,25 @@
  * Groups alignment tokens into alignment groups.
  *
  * Based on gofmt-style rules, tokens are grouped when ALL of the following are true:
- * 1. Same operator type (: with :, = with =)
+ * 1. Same operator type (: with :, = with =, => with =>)
  * 2. Same indentation level (different nesting = no alignment)
  * 3. Same AST parent type (structural role must match)
  * 4. Same token index on line (1st : aligns with 1st :, 2nd with 2nd)
  * 5. Consecutive lines (blank lines break groups)
+ *
+ * The attributes of one JSX, HTML or XML element are the exception to rule 5:
+ * they align as one group, whatever lines lie between them.
  */
 
 import { AlignmentGroup, AlignmentToken } from "../core/types";
 
+/**
+ * Parent types of element attributes. Boolean attributes, spreads and
+ * multi-line values leave lines without a token inside an element, so its
+ * attributes group by element (scope) instead of by consecutive lines.
+ */
+const ELEMENT_ATTRIBUTE_TYPES = new Set(["jsx_attribute", "tag_attribute"]);
+
 /**
  * Groups tokens into alignment groups based on gofmt-style rules.
  *
@@ -24,56 +34,12 @@ export function groupTokens(tokens: AlignmentToken[]): AlignmentGroup[] {
   }
 
   // Group tokens by their structural key
-  // For tokenIndex 0: group broadly (type, indent, parentType, scopeId)
-  // For tokenIndex > 0:
-  //   - If operatorCountOnLine > 1 (inline object): isolate by line number (no cross-object align)
-  //   - If operatorCountOnLine == 1 (multi-line block): use scopeId (allow alignment within block)
   const buckets = new Map<string, AlignmentToken[]>();
 
   for (const token of tokens) {
-    // Skip tokens that should not be aligned
-    if (token.parentType === "inline_object_nested_colon") {
-      continue; // Nested object colons get no padding
-    }
-    if (token.parentType === "inline_object_secondary_colon") {
-      continue; // Secondary colons in inline objects get no padding
-    }
-
-    let key: string;
-
-    // Check if this token is in an array scope (for array sibling alignment)
-    // The parser normalizes all array-like scopes to start with "array_"
-    const isArrayScope = token.scopeId.startsWith("array_");
-
-    if (token.parentType === "trailing_comment") {
-      // Trailing comments: group by type, indent, parentType, scopeId ONLY
-      // Ignore tokenIndex - comments should align regardless of how many
-      // operators precede them on the line
-      key = `${token.type}|${token.indent}|${token.parentType}|${token.scopeId}`;
-    } else if (token.parentType === "inline_object_colon_min") {
-      // Minimum spacing colons in inline objects: isolate EACH colon individually
-      // Each colon gets its own group, ensuring exactly 1 space padding
-      // (no alignment at all for these colons - just fixed 1 space)
-      key = `${token.type}|${token.indent}|${token.parentType}|line_${token.line}|col_${token.column}`;
-    } else if (token.tokenIndex === 0) {
-      // First operator on line: group broadly
-      key = `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
-    } else if (
-      token.operatorCountOnLine > 1 &&
-      token.parentType !== "function_arguments" &&
-      !isArrayScope
-    ) {
-      // Inline object (multiple operators on one line): isolate by line
-      // Each inline object is a separate type, don't align across them
-      // Exception 1: function_arguments should align across lines
-      // Exception 2: array scope - inline objects that are siblings in an array
-      //              should have ALL their operators align (commas AND colons)
-      key = `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|line_${token.line}`;
-    } else {
-      // Multi-line block (one operator per line): use scopeId for shared alignment
-      // Also applies to function_arguments regardless of operatorCountOnLine
-      // Also applies to array-scoped inline objects (allows full sibling alignment)
-      key = `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
+    const key = getBucketKey(token);
+    if (key === null) {
+      continue;
     }
     if (!buckets.has(key)) {
       buckets.set(key, []);
@@ -107,8 +73,11 @@ export function groupTokens(tokens: AlignmentToken[]): AlignmentGroup[] {
       const prev = currentGroup[currentGroup.length - 1];
       const curr = bucket[i];
 
-      // Must be on consecutive lines
-      if (curr.line === prev.line + 1) {
+      // Must be on consecutive lines, except for an element's attributes
+      if (
+        curr.line === prev.line + 1 ||
+        ELEMENT_ATTRIBUTE_TYPES.has(curr.parentType)
+      ) {
         currentGroup.push(curr);
       } else {
         // Finalize current group if it has multiple tokens
@@ -137,6 +106,142 @@ export function groupTokens(tokens: AlignmentToken[]): AlignmentGroup[] {
   return groups;
 }
 
+/**
+ * Computes the structural bucket key for a token.
+ * Tokens align only with tokens in the same bucket on consecutive lines.
+ * Returns null for tokens that should not be aligned at all.
+ *
+ * For tokenIndex 0: group broadly (type, indent, parentType, scopeId)
+ * For tokenIndex > 0:
+ *   - If operatorCountOnLine > 1 (inline object): isolate by line number (no cross-object align)
+ *   - If operatorCountOnLine == 1 (multi-line block): use scopeId (allow alignment within block)
+ */
+function getBucketKey(token: AlignmentToken): string | null {
+  // Skip tokens that should not be aligned
+  if (token.parentType === "inline_object_nested_colon") {
+    return null; // Nested object colons get no padding
+  }
+  if (token.parentType === "inline_object_secondary_colon") {
+    return null; // Secondary colons in inline objects get no padding
+  }
+
+  // Check if this token is in an array scope (for array sibling alignment)
+  // The parser normalizes all array-like scopes to start with "array_"
+  const isArrayScope = token.scopeId.startsWith("array_");
+
+  if (token.parentType === "trailing_comment") {
+    // Trailing comments: group by type, indent, parentType, scopeId ONLY
+    // Ignore tokenIndex - comments should align regardless of how many
+    // operators precede them on the line
+    return `${token.type}|${token.indent}|${token.parentType}|${token.scopeId}`;
+  } else if (token.parentType === "inline_object_colon_min") {
+    // Minimum spacing colons in inline objects: isolate EACH colon individually
+    // Each colon gets its own group, ensuring exactly 1 space padding
+    // (no alignment at all for these colons - just fixed 1 space)
+    return `${token.type}|${token.indent}|${token.parentType}|line_${token.line}|col_${token.column}`;
+  } else if (token.type === "=>") {
+    // Arrows (match arms, hash pairs): align column by column within their
+    // match or hash, even with several arms per line. Arms of different
+    // matches have different scopes, so they never align
+    return `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
+  } else if (token.type === "cell") {
+    // Cells are table columns: the Nth cell of a row aligns with the Nth
+    // cell of the rows around it, however many cells a row has
+    return `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
+  } else if (token.tokenIndex === 0) {
+    // First operator on line: group broadly
+    return `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
+  } else if (
+    token.operatorCountOnLine > 1 &&
+    token.parentType !== "function_arguments" &&
+    !isArrayScope
+  ) {
+    // Inline object (multiple operators on one line): isolate by line
+    // Each inline object is a separate type, don't align across them
+    // Exception 1: function_arguments should align across lines
+    // Exception 2: array scope - inline objects that are siblings in an array
+    //              should have ALL their operators align (commas AND colons)
+    return `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|line_${token.line}`;
+  }
+
+  // Multi-line block (one operator per line): use scopeId for shared alignment
+  // Also applies to function_arguments regardless of operatorCountOnLine
+  // Also applies to array-scoped inline objects (allows full sibling alignment)
+  return `${token.type}|${token.indent}|${token.parentType}|${token.tokenIndex}|${token.scopeId}`;
+}
+
+/**
+ * Regroups tokens after an incremental parse, reusing previous groups
+ * that the change could not have affected.
+ *
+ * ParserService hands back the same token objects for unchanged lines
+ * (with `line` shifted in place), so a previous group is reused when all of
+ * its tokens are still present, they are still on consecutive lines, and no
+ * other token of the same bucket sits directly above or below it.
+ * The result is identical to calling groupTokens(tokens).
+ */
+export function regroupTokens(
+  tokens: AlignmentToken[],
+  previousGroups: AlignmentGroup[]
+): AlignmentGroup[] {
+  const current = new Set(tokens);
+
+  // Index current tokens by bucket and line for neighbour lookups
+  const bucketLines = new Set<string>();
+  for (const token of tokens) {
+    const key = getBucketKey(token);
+    if (key !== null) {
+      bucketLines.add(`${key}@${token.line}`);
+    }
+  }
+
+  const reused: AlignmentGroup[] = [];
+  const reusedTokens = new Set<AlignmentToken>();
+
+  for (const group of previousGroups) {
+    const first = group.tokens[0];
+    const last = group.tokens[group.tokens.length - 1];
+    const intact = group.tokens.every(
+      (t, i) => current.has(t) && t.line === first.line + i
+    );
+    if (!intact) {
+      continue;
+    }
+
+    const key = getBucketKey(first);
+    if (
+      key === null ||
+      // Attribute groups span gaps: a neighbour check can't prove them whole
+      ELEMENT_ATTRIBUTE_TYPES.has(first.parentType) ||
+      bucketLines.has(`${key}@${first.line - 1}`) ||
+      bucketLines.has(`${key}@${last.line + 1}`)
+    ) {
+      continue;
+    }
+
+    reused.push({
+      ...group,
+      id: `${first.line}-${first.column}-${first.type}`,
+    });
+    for (const t of group.tokens) {
+      reusedTokens.add(t);
+    }
+  }
+
+  const groups = [
+    ...reused,
+    ...groupTokens(tokens.filter((t) => !reusedTokens.has(t))),
+  ];
+  groups.sort((a, b) => {
+    if (a.tokens[0].line !== b.tokens[0].line) {
+      return a.tokens[0].line - b.tokens[0].line;
+    }
+    return a.tokens[0].column - b.tokens[0].column;
+  });
+
+  return groups;
+}
+
 /**
  * Creates an alignment group from a list of tokens.
  *
@@ -146,12 +251,18 @@ export function groupTokens(tokens: AlignmentToken[]): AlignmentGroup[] {
  *   { key: "short",   next: 1 }  <- comma padded to align next key
  *   { key: "longer",  next: 1 }
  *
- * For `=`, `&&`, `||`, `}` operators: Pad BEFORE the operator so OPERATORS align.
+ * For `=`, `=>`, `&&`, `||`, `}` operators: Pad BEFORE the operator so OPERATORS align.
  *   passes   = sum(...)  <- operator at column 9
  *   warnings = sum(...)  <- operator at column 9
+ *   200 => "OK",         <- arrows align the same way
+ *   _   => "Unknown",
  *   { id: 1,   name: "Alice"   }  <- } aligns by padding before
  *   { id: 100, name: "Charlie" }
  *
+ * Element attribute `=` pads AFTER too, so attribute VALUES align:
+ *   id=        "submit"
+ *   aria-label="Submit"
+ *
  * For `funcArg` (function argument values): Pad BEFORE so values RIGHT-align.
  *   token(0,  8, ...)  <- 8 gets 1 space before to align with 15
  *   token(0, 15, ...)  <- 15 at rightmost position
@@ -177,7 +288,11 @@ function createGroup(tokens: AlignmentToken[]): AlignmentGroup {
 
   // `:` and `,` pad after (values/next keys align), everything else pads before (operators align)
   // `}` pads before to align closing braces of inline objects
-  const padAfter = operatorType === ":" || operatorType === ",";
+  // Attribute `=` stays attached to its name, so it pads after as well
+  const padAfter =
+    operatorType === ":" ||
+    operatorType === "," ||
+    ELEMENT_ATTRIBUTE_TYPES.has(parentType);
 
   let targetColumn: number;
 
@@ -0,0 +1,207 @@
+/**
+ * Layout engine: turns alignment groups into padding operations.
+ *
+ * The single source of truth for where padding goes and how wide it is.
+ * DecorationManager renders the operations as virtual spaces and the
+ * formatter inserts them as real spaces, so both always agree.
+ */
+
+import { AlignmentGroup, AlignmentToken } from "../core/types";
+
+/** Padding wider than this is dropped and the token is left unaligned */
+export const MAX_PADDING_WIDTH = 50;
+
+/**
+ * Padding operation: insert `spaces` spaces at a document position.
+ * Columns are in the original (unpadded) document.
+ */
+export interface PaddingOp {
+  line: number;
+  column: number;
+  spaces: number;
+}
+
+/**
+ * Orders groups by first token's line and column.
+ */
+function compareGroups(a: AlignmentGroup, b: AlignmentGroup): number {
+  if (a.tokens[0].line !== b.tokens[0].line) {
+    return a.tokens[0].line - b.tokens[0].line;
+  }
+  return a.tokens[0].column - b.tokens[0].column;
+}
+
+/**
+ * Calculates padding operations for groups.
+ *
+ * Multi-pass algorithm to handle accumulated shift:
+ * 1. Process funcArg groups column-by-column (Column-Based Sweep)
+ * 2. Process regular operators, tracking per-line shift
+ * 3. Process comments accounting for accumulated shift
+ */
+export function calculatePaddingOps(groups: AlignmentGroup[]): PaddingOp[] {
+  const sortedGroups = groups
+    .filter((g) => g.tokens.length > 0)
+    .sort(compareGroups);
+
+  // Separate groups by type
+  const commentGroups = sortedGroups.filter((g) => g.tokens[0].type === "//");
+  const funcArgGroups = sortedGroups.filter(
+    (g) => g.tokens[0].type === "funcArg"
+  );
+  const regularGroups = sortedGroups.filter(
+    (g) => g.tokens[0].type !== "//" && g.tokens[0].type !== "funcArg"
+  );
+
+  // Track accumulated shift per line (from all padding)
+  const lineShift = new Map<number, number>();
+  const paddingOps: PaddingOp[] = [];
+
+  /** Records padding for a token and the shift it causes on its line */
+  function pad(
+    shifts: Map<number, number>,
+    token: AlignmentToken,
+    column: number,
+    spaces: number
+  ): void {
+    if (spaces <= 0 || spaces > MAX_PADDING_WIDTH) {
+      return;
+    }
+    paddingOps.push({ line: token.line, column, spaces });
+    shifts.set(token.line, (shifts.get(token.line) ?? 0) + spaces);
+  }
+
+  // --- PASS 1: Process funcArg groups using Column-Based Sweep ---
+  // Group funcArg tokens by scope, then process column-by-column
+  const funcArgByScope = new Map<string, AlignmentGroup[]>();
+  for (const group of funcArgGroups) {
+    const scopeId = group.tokens[0].scopeId;
+    if (!funcArgByScope.has(scopeId)) {
+      funcArgByScope.set(scopeId, []);
+    }
+    funcArgByScope.get(scopeId)!.push(group);
+  }
+
+  for (const scopeGroups of funcArgByScope.values()) {
+    // Sort groups by tokenIndex (column order)
+    scopeGroups.sort((a, b) => a.tokens[0].tokenIndex - b.tokens[0].tokenIndex);
+
+    // Track shift per line within this scope
+    const scopeLineShift = new Map<number, number>();
+
+    // Process each column (tokenIndex) left-to-right, right-aligning values
+    for (const group of scopeGroups) {
+      const visualEnds = group.tokens.map(
+        (t) => t.column + t.text.length + (scopeLineShift.get(t.line) ?? 0)
+      );
+      const maxVisualEnd = Math.max(...visualEnds);
+
+      group.tokens.forEach((token, i) => {
+        // Pad BEFORE the token (right-align)
+        pad(scopeLineShift, token, token.column, maxVisualEnd - visualEnds[i]);
+      });
+    }
+
+    // Merge scope shifts into global lineShift for later passes
+    for (const [line, shift] of scopeLineShift) {
+      lineShift.set(line, (lineShift.get(line) ?? 0) + shift);
+    }
+  }
+
+  // --- PASS 2: Process regular operators ---
+  // function_arguments commas go first so they see only the funcArg shift,
+  // and cells go left to right so each column sees the shift before it
+  const orderedRegularGroups = [
+    ...regularGroups.filter(
+      (g) => g.tokens[0].parentType === "function_arguments"
+    ),
+    ...regularGroups
+      .filter((g) => g.tokens[0].type === "cell")
+      .sort((a, b) => a.tokens[0].tokenIndex - b.tokens[0].tokenIndex),
+    ...regularGroups.filter(
+      (g) =>
+        g.tokens[0].parentType !== "function_arguments" &&
+        g.tokens[0].type !== "cell"
+    ),
+  ];
+
+  // An empty cell takes no padding itself; instead the next cell on its
+  // line must start at or after the column the empty cell aligned to
+  const cellFloor = new Map<number, number>();
+
+  for (const group of orderedRegularGroups) {
+    // Recalculate target column using VISUAL positions (accounting for accumulated shifts)
+    const visualColumns = group.tokens.map((t) => {
+      const shift = lineShift.get(t.line) ?? 0;
+      return group.padAfter
+        ? t.column + t.text.length + shift
+        : t.column + shift;
+    });
+    const visualTargetColumn = Math.max(
+      ...visualColumns.map((column, i) =>
+        Math.max(column, cellFloor.get(group.tokens[i].line) ?? 0)
+      )
+    );
+
+    group.tokens.forEach((token, i) => {
+      if (token.type === "cell" && token.text === "") {
+        cellFloor.set(token.line, visualTargetColumn);
+        return;
+      }
+      cellFloor.delete(token.line);
+
+      // For `:` and `,` - pad AFTER operator to align values
+      // For `=`, `&&`, `||`, `}` - pad BEFORE operator to align operators
+      const column = group.padAfter
+        ? token.column + token.text.length
+        : token.column;
+      const spaces = visualTargetColumn - visualColumns[i];
+
+      // Right and center table cells pad (partly) before their content;
+      // delimiter rows only ever pad after their dashes
+      const cell = token.cellAlign;
+      if (
+        cell &&
+        cell.align !== "left" &&
+        !cell.delimiterRow &&
+        spaces <= MAX_PADDING_WIDTH
+      ) {
+        const before =
+          cell.align === "right" ? spaces : Math.floor(spaces / 2);
+        pad(lineShift, token, cell.contentColumn, before);
+        pad(lineShift, token, column, spaces - before);
+        return;
+      }
+      pad(lineShift, token, column, spaces);
+    });
+  }
+
+  // --- PASS 3: Process comment groups with shift adjustment ---
+  for (const group of commentGroups) {
+    const visualColumns = group.tokens.map(
+      (t) => t.column + (lineShift.get(t.line) ?? 0)
+    );
+    const targetVisualColumn = Math.max(...visualColumns);
+
+    group.tokens.forEach((token, i) => {
+      pad(lineShift, token, token.column, targetVisualColumn - visualColumns[i]);
+    });
+  }
+
+  return paddingOps;
+}
+
+/**
+ * Batches padding operations by width.
+ * Decorations are applied one type per width, so this is the unit they use.
+ */
+export function groupOpsByWidth(ops: PaddingOp[]): Map<number, PaddingOp[]> {
+  const opsByWidth = new Map<number, PaddingOp[]>();
+  for (const op of ops) {
+    if (!opsByWidth.has(op.spaces)) {
+      opsByWidth.set(op.spaces, []);
+    }
+    opsByWidth.get(op.spaces)!.push(op);
+  }
+  return opsByWidth;
+}
@@ -0,0 +1,167 @@
+/**
+ * Viewport alignment: aligns the lines around the viewport and merges them
+ * into what is already aligned for the document, so scrolling fills in the
+ * rest.
+ *
+ * An aligned range only ever holds whole groups, so groups at the viewport
+ * edge come out the same as in a full-document pass.
+ */
+
+import {
+  AlignmentGroup,
+  AlignmentToken,
+  LineRange,
+  ParseableDocument,
+} from "../core/types";
+import { expandToBlankLines } from "../parsing/text-utils";
+import { groupTokens, regroupTokens } from "./Grouper";
+
+/**
+ * Alignment computed so far for a document.
+ */
+export interface DocumentAlignment {
+  /** Document version the groups were computed for */
+  version: number;
+  /** Line ranges that have been aligned, each holding whole groups */
+  ranges: LineRange[];
+  /** Groups for all aligned ranges, sorted by position */
+  groups: AlignmentGroup[];
+}
+
+/** Parses the tokens on lines [startLine, endLine] of the document */
+export type RangeParser = (
+  startLine: number,
+  endLine: number
+) => Promise<AlignmentToken[]>;
+
+/**
+ * Aligns the lines around a viewport and merges them into the previous
+ * alignment of the document. Returns the previous alignment unchanged when
+ * it already covers the viewport.
+ *
+ * The viewport is widened to blank lines, by a bounded number of lines so
+ * files without blank lines stay cheap. When that limit cuts through a
+ * group, the range is widened to the group's full extent instead.
+ */
+export async function alignViewport(
+  document: ParseableDocument,
+  version: number,
+  viewport: LineRange,
+  previous: DocumentAlignment | undefined,
+  parse: RangeParser
+): Promise<DocumentAlignment> {
+  let range = expandToBlankLines(document, viewport.start, viewport.end);
+  const current = previous && previous.version === version ? previous : null;
+  if (current && isRangeCovered(current.ranges, range)) {
+    return current;
+  }
+
+  // Parse one expansion step past the range to see the groups crossing its
+  // edges, and widen it until none does
+  let rangeGroups: AlignmentGroup[];
+  for (;;) {
+    const probe = expandToBlankLines(document, range.start, range.end);
+    const tokens = await parse(probe.start, probe.end);
+
+    // Reuse groups an edit didn't touch
+    rangeGroups = (
+      previous ? regroupTokens(tokens, previous.groups) : groupTokens(tokens)
+    ).filter((g) => isGroupTouchingRange(g, range));
+
+    const extent = getExtent(rangeGroups, range);
+    if (extent.start === range.start && extent.end === range.end) {
+      break;
+    }
+    range = extent;
+  }
+
+  if (!current) {
+    return { version, ranges: [range], groups: rangeGroups };
+  }
+
+  // Groups touching the range are replaced by the range's. Lines they
+  // covered outside the range are no longer aligned.
+  let ranges = current.ranges;
+  const groups = [...rangeGroups];
+  for (const group of current.groups) {
+    if (isGroupTouchingRange(group, range)) {
+      ranges = subtractRange(ranges, getExtent([group]));
+    } else {
+      groups.push(group);
+    }
+  }
+
+  return {
+    version,
+    ranges: [...ranges, range],
+    groups: groups.sort(compareGroups),
+  };
+}
+
+/**
+ * Checks whether a range is fully contained in already aligned ranges.
+ */
+function isRangeCovered(ranges: LineRange[], range: LineRange): boolean {
+  let line = range.start;
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  for (const r of sorted) {
+    if (r.start <= line && r.end >= line) {
+      line = r.end + 1;
+    }
+  }
+  return line > range.end;
+}
+
+/**
+ * Removes the lines of one range from a list of ranges.
+ */
+function subtractRange(ranges: LineRange[], cut: LineRange): LineRange[] {
+  return ranges.flatMap((r) => {
+    if (r.end < cut.start || r.start > cut.end) {
+      return [r];
+    }
+    const parts: LineRange[] = [];
+    if (r.start < cut.start) {
+      parts.push({ start: r.start, end: cut.start - 1 });
+    }
+    if (r.end > cut.end) {
+      parts.push({ start: cut.end + 1, end: r.end });
+    }
+    return parts;
+  });
+}
+
+/**
+ * Gets the lines spanned by groups, together with an initial range.
+ */
+function getExtent(groups: AlignmentGroup[], initial?: LineRange): LineRange {
+  let start = initial?.start ?? Infinity;
+  let end = initial?.end ?? -Infinity;
+  for (const group of groups) {
+    for (const token of group.tokens) {
+      start = Math.min(start, token.line);
+      end = Math.max(end, token.line);
+    }
+  }
+  return { start, end };
+}
+
+/**
+ * Checks whether any of a group's tokens lie inside a line range.
+ */
+function isGroupTouchingRange(
+  group: AlignmentGroup,
+  range: LineRange
+): boolean {
+  return group.tokens.some((t) => t.line >= range.start && t.line <= range.end);
+}
+
+/**
+ * Orders groups by their first token's line, then column.
+ */
+function compareGroups(a: AlignmentGroup, b: AlignmentGroup): number {
+  if (a.tokens[0].line !== b.tokens[0].line) {
+    return a.tokens[0].line - b.tokens[0].line;
+  }
+  return a.tokens[0].column - b.tokens[0].column;
+}
@@ -8,7 +8,10 @@
 import * as path from "path";
 import {
   AlignmentToken,
+  CellAlignment,
+  DocumentChange,
   getParserLanguage,
+  LineRange,
   OperatorType,
   ParseableDocument,
   ParserConfig,
@@ -18,33 +21,80 @@ import {
 // Import extracted modules
 import {
   getParentType,
+  getEnclosingScopeId,
   getScopeId,
   isInsideStringOrComment,
   normalizeOperator,
 } from "./ast-utils";
+import { EmbeddedBlock, findComponentBlocks } from "./component-utils";
+import { GoLayout } from "./go-utils";
+import { extractHclTokens } from "./hcl-utils";
+import { extractJsonTokens } from "./json-utils";
+import { extractKeyValueTokens, KeyValueDialect } from "./keyvalue-utils";
+import { extractMarkupTokens } from "./markup-utils";
 import { QUERIES, WASM_FILES } from "./queries";
+import { extractGraphqlTokens, extractProtoTokens } from "./schema-utils";
+import { extractSqlTokens } from "./sql-utils";
+import {
+  extractTableRowTokens,
+  MarkdownTable,
+  parseTableDelimiterRow,
+  splitTableRow,
+} from "./table-utils";
 import { getIndentLevel } from "./text-utils";
+import { extractTomlTokens } from "./toml-utils";
 import {
   Language,
   LanguageClass,
   Parser,
   ParserClass,
   Query,
+  QueryClass,
+  QueryCapture,
+  Tree,
   TreeNode,
 } from "./tree-sitter-types";
+import { extractYamlTokens } from "./yaml-utils";
+
+/**
+ * Incremental parse state for one document.
+ * Kept between parses so edits only re-extract the lines they touch.
+ */
+interface DocumentCache {
+  /** Parser language the tree was built with */
+  lang: string;
+  /** Syntax tree from the last parse */
+  tree: Tree;
+  /** Document text the tree was built from */
+  text: string;
+  /** Whether the tree has been edited since the last parse */
+  edited: boolean;
+  /** Extracted tokens by line (lines without an entry must be re-extracted) */
+  lineTokens: Map<number, AlignmentToken[]>;
+}
+
+/** Blockquote markers at the start of a Markdown line */
+const BLOCKQUOTE_PREFIX = /^( {0,3}> ?)*/;
+
+/** Markdown list item: indent, bullet or number, spacing */
+const LIST_ITEM = /^( *)([-+*]|\d{1,9}[.)])( +|$)/;
+
+/** Markdown code fence: indent, backticks or tildes, info string */
+const CODE_FENCE = /^( *)(`{3,}|~{3,})(.*)$/;
 
 export class ParserService {
   private initialized = false;
   private ParserClass: ParserClass | null = null;
   private LanguageClass: LanguageClass | null = null;
+  private QueryClass: QueryClass | null = null;
   private parser: Parser | null = null;
   private languages: Map<string, Language> = new Map();
   private queries: Map<string, Query> = new Map();
+  private documents: Map<string, DocumentCache> = new Map();
   private wasmDir: string;
 
   constructor(config: ParserConfig) {
     this.wasmDir = config.wasmDir;
-    console.log("Even Better Virtual Align: WASM directory:", this.wasmDir);
   }
 
   /**
@@ -57,31 +107,20 @@ export class ParserService {
     }
 
     try {
-      console.log("Even Better Virtual Align: Initializing Tree-sitter...");
-
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const treeSitter = require("@vscode/tree-sitter-wasm");
       // The module exports { Parser, Language, Query, ... }
       this.ParserClass = treeSitter.Parser as ParserClass;
       this.LanguageClass = treeSitter.Language as LanguageClass;
+      this.QueryClass = treeSitter.Query as QueryClass;
 
       // Initialize tree-sitter with the WASM file location
       await this.ParserClass.init({
-        locateFile: (file: string) => {
-          const fullPath = path.join(this.wasmDir, file);
-          console.log(
-            "Even Better Virtual Align: Loading WASM file:",
-            fullPath
-          );
-          return fullPath;
-        },
+        locateFile: (file: string) => path.join(this.wasmDir, file),
       });
 
       this.parser = new this.ParserClass();
       this.initialized = true;
-      console.log(
-        "Even Better Virtual Align: Tree-sitter initialized successfully"
-      );
     } catch (error) {
       console.error(
         "Even Better Virtual Align: Failed to initialize Tree-sitter:",
@@ -99,7 +138,7 @@ export class ParserService {
       return true;
     }
 
-    if (!this.LanguageClass || !this.parser) {
+    if (!this.LanguageClass || !this.QueryClass || !this.parser) {
       return false;
     }
 
@@ -118,7 +157,7 @@ export class ParserService {
       // Compile query for this language
       const querySource = QUERIES[lang];
       if (querySource) {
-        const query = language.query(querySource);
+        const query = new this.QueryClass(language, querySource);
         this.queries.set(lang, query);
       }
 
@@ -154,14 +193,58 @@ export class ParserService {
       return this.parseYamlWithRegex(document, startLine, endLine);
     }
 
+    // TOML uses a line scanner (no WASM grammar available)
+    if (parserLang === "toml") {
+      return this.parseTomlWithRegex(document, startLine, endLine);
+    }
+
+    // HTML and XML use a line scanner (no WASM grammars available)
+    if (parserLang === "markup") {
+      return this.parseMarkupWithRegex(document, startLine, endLine);
+    }
+
+    // Protobuf uses a line scanner (no WASM grammar available)
+    if (parserLang === "proto") {
+      return this.parseProtoWithRegex(document, startLine, endLine);
+    }
+
+    // GraphQL uses a line scanner (no WASM grammar available)
+    if (parserLang === "graphql") {
+      return this.parseGraphqlWithRegex(document, startLine, endLine);
+    }
+
+    // HCL uses a line scanner (no WASM grammar available)
+    if (parserLang === "hcl") {
+      return this.parseHclWithRegex(document, startLine, endLine);
+    }
+
+    // dotenv, INI and .properties use a line scanner
+    if (
+      parserLang === "dotenv" ||
+      parserLang === "ini" ||
+      parserLang === "properties"
+    ) {
+      return this.parseKeyValueWithRegex(
+        document,
+        startLine,
+        endLine,
+        parserLang
+      );
+    }
+
     // SQL uses regex fallback (no WASM grammar available)
     if (parserLang === "sql") {
       return this.parseSqlWithRegex(document, startLine, endLine);
     }
 
-    // Markdown parses code blocks with supported languages
+    // Markdown parses tables and code blocks with supported languages
     if (parserLang === "markdown") {
-      return this.parseMarkdownCodeBlocks(document, startLine, endLine);
+      return this.parseMarkdown(document, startLine, endLine);
+    }
+
+    // Vue, Svelte and Astro parse their script and style blocks
+    if (parserLang === "component") {
+      return this.parseComponentBlocks(document, startLine, endLine);
     }
 
     // TSX already mapped correctly by getParserLanguage
@@ -180,1052 +263,881 @@ export class ParserService {
     }
 
     try {
-      // Set language and parse
+      // Set language and parse, reusing this document's previous tree
       this.parser.setLanguage(language);
       const text = document.getText();
-      const tree = this.parser.parse(text);
+      const cache = this.getDocumentCache(document, actualLang, text);
+      const tree =
+        cache && !cache.edited
+          ? cache.tree
+          : this.parser.parse(text, cache?.tree ?? null);
 
       if (!tree) {
         return [];
       }
 
-      const captures = query.captures(tree.rootNode);
-
-      // First pass: collect all valid captures with their metadata
-      // We need to sort by column before assigning tokenIndex because
-      // Tree-sitter returns captures in AST order, not left-to-right text order
-      interface CaptureData {
-        line: number;
-        column: number;
-        text: string;
-        type: OperatorType;
-        indent: number;
-        parentType: string;
-        scopeId: string;
+      // Tokens by line; lines outside the changed ranges keep their tokens
+      const lineTokens =
+        cache?.lineTokens ?? new Map<number, AlignmentToken[]>();
+      if (cache && cache.tree !== tree) {
+        this.invalidateChangedLines(cache, tree);
       }
-      const captureData: CaptureData[] = [];
-
-      for (const capture of captures) {
-        const node = capture.node;
-        const line = node.startPosition.row;
-
-        // Filter to visible range
-        if (line < startLine || line > endLine) {
-          continue;
-        }
-
-        const operatorText = node.text;
-        const operatorType = normalizeOperator(operatorText);
-
-        // Skip if inside a string or comment (but NOT if we're capturing the comment itself)
-        if (operatorType !== "//" && isInsideStringOrComment(node)) {
-          continue;
-        }
-
-        if (!operatorType) {
-          continue;
-        }
-
-        // Get indentation level of this line
-        const lineText = document.lineAt(line).text;
-        const indent = getIndentLevel(lineText);
-
-        // For comments, only include trailing comments (code before the comment)
-        // Trailing comments use special grouping: ignore scopeId, use "trailing_comment" parentType
-        if (operatorType === "//") {
-          const column = node.startPosition.column;
-          // Check if there's non-whitespace code before the comment
-          const beforeComment = lineText.substring(0, column);
-          if (beforeComment.trim().length === 0) {
-            // This is a standalone comment, not a trailing comment
-            continue;
-          }
-
-          // Trailing comments group by indent + consecutive lines only
-          // Use constant parentType and scopeId to bypass AST-based separation
-          captureData.push({
-            line,
-            column,
-            text: "//", // Normalize to just the marker for consistent alignment
-            type: operatorType,
-            indent,
-            parentType: "trailing_comment",
-            scopeId: "trailing_comment", // All trailing comments share the same scope
-          });
-          continue;
-        }
-
-        // Get parent type for structural grouping
-        const parentType = getParentType(node);
-
-        // Get scope ID - tokens in different scopes shouldn't align
-        const scopeId = getScopeId(node);
-
-        // DEBUG: Log non-array scopes for pair colons
-        if (
-          operatorType === ":" &&
-          parentType === "pair" &&
-          !scopeId.startsWith("array_")
-        ) {
-          console.log(`EBVA: Non-array scope at L${line}: ${scopeId}`);
-        }
 
-        captureData.push({
-          line,
-          column: node.startPosition.column,
-          text: operatorText,
-          type: operatorType,
-          indent,
-          parentType,
-          scopeId,
+      const lastLine = Math.min(endLine, document.lineCount - 1);
+      for (const range of this.findUncachedRanges(
+        lineTokens,
+        startLine,
+        lastLine
+      )) {
+        const captures = query.captures(tree.rootNode, {
+          startPosition: { row: range.start, column: 0 },
+          endPosition: { row: range.end + 1, column: 0 },
         });
-      }
-
-      // Sort by line, then by column (left-to-right order)
-      captureData.sort((a, b) => {
-        if (a.line !== b.line) return a.line - b.line;
-        return a.column - b.column;
-      });
-
-      // Find inline objects and add comma tokens
-      // Group captures by line AND DEPTH to handle nested objects separately
-      // Each depth level gets its own alignment scope
-      const colonsByLineAndDepth = new Map<string, CaptureData[]>();
-      for (const data of captureData) {
-        if (data.type === ":" && data.parentType === "pair") {
-          const lineText = document.lineAt(data.line).text;
-          const braceDepth = this.getBraceDepthAtColumn(lineText, data.column);
-
-          // Group by line AND depth
-          const key = `${data.line}:${braceDepth}`;
-          if (!colonsByLineAndDepth.has(key)) {
-            colonsByLineAndDepth.set(key, []);
-          }
-          colonsByLineAndDepth.get(key)!.push(data);
+        for (let line = range.start; line <= range.end; line++) {
+          lineTokens.set(line, []);
         }
-      }
-
-      // Also maintain colonsByLine for backward compatibility (outer objects only)
-      const colonsByLine = new Map<number, CaptureData[]>();
-      for (const [key, colons] of colonsByLineAndDepth) {
-        const [lineStr, depthStr] = key.split(":");
-        const line = parseInt(lineStr);
-        const depth = parseInt(depthStr);
-        if (depth === 1) {
-          colonsByLine.set(line, colons);
+        const extracted = this.extractTokens(
+          document,
+          captures,
+          range.start,
+          range.end
+        );
+        for (const token of extracted) {
+          lineTokens.get(token.line)!.push(token);
         }
       }
 
-      // DEBUG: Write IMMEDIATELY to confirm extension is running
-      const fs = require("fs");
-      const debugPath = "/tmp/ebva-inline-debug.txt";
-      fs.writeFileSync(
-        debugPath,
-        `Extension running! captureData=${captureData.length}, colonsByLine entries=${colonsByLine.size}\n`
-      );
+      const tokens: AlignmentToken[] = [];
+      for (let line = startLine; line <= lastLine; line++) {
+        tokens.push(...(lineTokens.get(line) ?? []));
+      }
 
-      // Log all colons with their parentType
-      for (const data of captureData) {
-        if (data.type === ":") {
-          fs.appendFileSync(
-            debugPath,
-            `  L${data.line}:${data.column} parentType="${data.parentType}" scope="${data.scopeId}"\n`
-          );
+      if (document.uri) {
+        if (cache && cache.tree !== tree) {
+          cache.tree.delete();
         }
+        this.documents.set(document.uri, {
+          lang: actualLang,
+          tree,
+          text,
+          edited: false,
+          lineTokens,
+        });
+      } else {
+        tree.delete();
       }
 
-      // Track which lines have inline objects at each depth
-      const inlineObjectLineDepths = new Set<string>();
-
-      // Process ALL depth levels, not just depth 1
-      for (const [key, colons] of colonsByLineAndDepth) {
-        if (colons.length < 2) continue;
-
-        const [lineStr, depthStr] = key.split(":");
-        const lineNum = parseInt(lineStr);
-        const depth = parseInt(depthStr);
-
-        inlineObjectLineDepths.add(key);
+      return tokens;
+    } catch (error) {
+      console.error("Parse error:", error);
+      return [];
+    }
+  }
 
-        // DEBUG: Write to file
-        fs.appendFileSync(
-          debugPath,
-          `INLINE L${lineNum} D${depth}: ${colons.length} colons, scope="${colons[0].scopeId}"\n`
-        );
+  /**
+   * Extracts alignable tokens from query captures within a line range.
+   */
+  private extractTokens(
+    document: ParseableDocument,
+    captures: QueryCapture[],
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    // First pass: collect all valid captures with their metadata
+    // We need to sort by column before assigning tokenIndex because
+    // Tree-sitter returns captures in AST order, not left-to-right text order
+    interface CaptureData {
+      line: number;
+      column: number;
+      text: string;
+      type: OperatorType;
+      indent: number;
+      parentType: string;
+      scopeId: string;
+      /** Fixed index, overriding the token's position on its line */
+      tokenIndex?: number;
+    }
+    const captureData: CaptureData[] = [];
 
-        const lineText = document.lineAt(lineNum).text;
+    // Go rows are split into gofmt cells, including their trailing comments
+    const goLayout = new GoLayout();
+    const goCellComments = new Set<number>();
 
-        // Create depth-specific scope for proper grouping
-        const depthScopeId = `${colons[0].scopeId}_depth${depth}`;
+    for (const capture of captures) {
+      const node = capture.node;
+      const line = node.startPosition.row;
 
-        // For depth 1 (outermost objects): find commas between pairs
-        if (depth === 1) {
-          const commaPositions = this.findInlineObjectCommas(lineText, colons);
+      // Filter to visible range
+      if (line < startLine || line > endLine) {
+        continue;
+      }
 
-          for (const commaCol of commaPositions) {
-            captureData.push({
-              line: lineNum,
-              column: commaCol,
-              text: ",",
-              type: ",",
-              indent: colons[0].indent,
-              parentType: "inline_object",
-              scopeId: depthScopeId,
-            });
-          }
+      // Go rows: one token per gofmt cell, at the cell's column index
+      if (capture.name === "row") {
+        const row = goLayout.getRow(node);
+        if (!row) {
+          continue;
         }
-
-        // Find closing brace for this depth level (only for depth 1 outer objects)
-        if (depth === 1) {
-          const closingBraceCol = this.findClosingBraceAtDepth(
-            lineText,
-            colons,
-            depth
-          );
-          if (closingBraceCol !== null) {
-            captureData.push({
-              line: lineNum,
-              column: closingBraceCol,
-              text: "}",
-              type: "}",
-              indent: colons[0].indent,
-              parentType: "inline_object",
-              scopeId: depthScopeId,
-            });
-          }
+        if (row.comment) {
+          goCellComments.add(row.comment.id);
         }
-      }
-
-      // Also emit } tokens for NESTED objects on inline object lines
-      // These are objects like { auth: false } that may only have 1 colon
-      // but should still have their } aligned across lines
-      for (const key of inlineObjectLineDepths) {
-        const [lineStr, depthStr] = key.split(":");
-        const lineNum = parseInt(lineStr);
-        const depth = parseInt(depthStr);
-
-        // Only process depth 1 (outer objects) - we'll find nested } from there
-        if (depth !== 1) continue;
-
-        const lineText = document.lineAt(lineNum).text;
-        const outerColons = colonsByLineAndDepth.get(key);
-        if (!outerColons) continue;
-
-        // Find all nested objects on this line by looking for { } pairs at depth 2
-        const nestedBraces = this.findNestedObjectBraces(lineText, outerColons);
-
-        for (const nestedBrace of nestedBraces) {
+        const indent = getIndentLevel(document.lineAt(line).text);
+        for (const cell of row.cells) {
           captureData.push({
-            line: lineNum,
-            column: nestedBrace.insertCol,
-            text: "}",
-            type: "}",
-            indent: outerColons[0].indent,
-            parentType: "inline_object_nested",
-            scopeId: `${outerColons[0].scopeId}_nested_${nestedBrace.depth}`,
+            line: cell.line,
+            column: cell.column,
+            text: cell.text,
+            type: "cell",
+            indent,
+            parentType: row.parentType,
+            scopeId: row.scopeId,
+            tokenIndex: cell.index,
           });
         }
+        continue;
       }
-
-      // For inline objects with } alignment, handle colons specially:
-      // - Depth 1 (outer object): first colon aligns, OTHER colons get NO padding (skip them)
-      // - Depth 2+ (nested objects): ALL colons get NO padding (only } aligns)
-      //
-      // Mark ALL colons at depth 2+ as nested, AND non-first colons at depth 1
-      // This prevents secondary colons from interfering with alignment
-      for (const data of captureData) {
-        if (data.type !== ":") continue;
-        const lineText = document.lineAt(data.line).text;
-        const depth = this.getBraceDepthAtColumn(lineText, data.column);
-
-        if (depth >= 2) {
-          // ALL colons at depth 2+ are nested - mark them to skip alignment
-          data.parentType = "inline_object_nested_colon";
-          data.scopeId = `${data.scopeId}_depth${depth}_no_align`;
-          continue;
-        }
-
-        // Depth 1: check if this line has inline objects
-        const key = `${data.line}:${depth}`;
-        if (!inlineObjectLineDepths.has(key)) continue;
-
-        // Outer object: first colon aligns, others get NO padding (skip them)
-        const depthColons = colonsByLineAndDepth.get(key);
-        if (!depthColons) continue;
-        const minColonCol = Math.min(...depthColons.map((c) => c.column));
-        if (data.column !== minColonCol) {
-          // Mark non-first colons to be skipped (no alignment, no min spacing)
-          data.parentType = "inline_object_secondary_colon";
-          data.scopeId = `${data.scopeId}_depth${depth}_no_align`;
-        }
+      if (goCellComments.has(node.id)) {
+        continue;
       }
 
-      // Find function calls and add argument comma tokens
-      // Collect function call data from captures
-      interface FuncCallData {
-        line: number;
-        funcName: string;
-        argsText: string;
-        argsStartCol: number;
-        indent: number;
+      // Column starts: padded before, aligned with the same column above and below
+      if (capture.name === "cell") {
+        captureData.push({
+          line,
+          column: node.startPosition.column,
+          text: node.text.split("\n")[0],
+          type: "cell",
+          indent: getIndentLevel(document.lineAt(line).text),
+          parentType: getParentType(node),
+          scopeId: getScopeId(node),
+        });
+        continue;
       }
-      const funcCalls: FuncCallData[] = [];
 
-      // Group captures by their parent call_expression node ID
-      const callCaptures = new Map<
-        number,
-        { funcName?: string; argsNode?: TreeNode; callNode?: TreeNode }
-      >();
-      for (const capture of captures) {
-        if (
-          capture.name === "func_name" ||
-          capture.name === "func_args" ||
-          capture.name === "func_call"
-        ) {
-          // Find the call_expression ancestor
-          let callNode = capture.node;
-          while (callNode && callNode.type !== "call_expression") {
-            callNode = callNode.parent!;
-          }
-          if (!callNode) continue;
+      const operatorText = node.text;
+      const operatorType = normalizeOperator(operatorText);
 
-          const callId = callNode.id;
-          if (!callCaptures.has(callId)) {
-            callCaptures.set(callId, {});
-          }
-          const data = callCaptures.get(callId)!;
-
-          if (capture.name === "func_name") {
-            data.funcName = capture.node.text;
-          } else if (capture.name === "func_args") {
-            data.argsNode = capture.node;
-          } else if (capture.name === "func_call") {
-            data.callNode = capture.node;
-          }
-        }
+      // Skip if inside a string or comment (but NOT if we're capturing the comment itself)
+      if (operatorType !== "//" && isInsideStringOrComment(node)) {
+        continue;
       }
 
-      // Process collected function calls
-      for (const [, data] of callCaptures) {
-        if (!data.funcName || !data.argsNode || !data.callNode) continue;
+      if (!operatorType) {
+        continue;
+      }
 
-        const line = data.callNode.startPosition.row;
-        if (line < startLine || line > endLine) continue;
+      // Get indentation level of this line
+      const lineText = document.lineAt(line).text;
+      const indent = getIndentLevel(lineText);
 
-        const lineText = document.lineAt(line).text;
-        const indent = getIndentLevel(lineText);
+      // For comments, only include trailing comments (code before the comment)
+      // Trailing comments use special grouping: ignore scopeId, use "trailing_comment" parentType
+      if (operatorType === "//") {
+        const column = node.startPosition.column;
+        // Check if there's non-whitespace code before the comment
+        const beforeComment = lineText.substring(0, column);
+        if (beforeComment.trim().length === 0) {
+          // This is a standalone comment, not a trailing comment
+          continue;
+        }
 
-        funcCalls.push({
+        // Trailing comments group by indent + consecutive lines only
+        // Use constant parentType and scopeId to bypass AST-based separation
+        captureData.push({
           line,
-          funcName: data.funcName,
-          argsText: data.argsNode.text,
-          argsStartCol: data.argsNode.startPosition.column,
+          column,
+          text: "//", // Normalize to just the marker for consistent alignment
+          type: operatorType,
           indent,
+          parentType: "trailing_comment",
+          scopeId: "trailing_comment", // All trailing comments share the same scope
         });
+        continue;
       }
 
-      // Group consecutive function calls by (funcName, indent)
-      // Extract:
-      // 1. NUMERIC argument values for right-alignment (funcArg)
-      // 2. Commas for left-alignment of non-numeric arguments
-      funcCalls.sort((a, b) => a.line - b.line);
+      // Get parent type for structural grouping
+      const parentType = getParentType(node);
 
-      for (const call of funcCalls) {
-        // Extract argument values (start position and text)
-        const argsContent = call.argsText;
-        const args = this.extractFunctionArguments(argsContent);
+      // Get scope ID - tokens in different scopes shouldn't align
+      const scopeId = getScopeId(node);
 
-        // Find comma positions between arguments
-        const commaPositions = this.findFunctionArgumentCommas(argsContent);
+      captureData.push({
+        line,
+        column: node.startPosition.column,
+        text: operatorText,
+        type: operatorType,
+        indent,
+        parentType,
+        scopeId,
+      });
+    }
 
-        // Use function name + indent as scope
-        // This allows consecutive calls to the same function to align
-        const scopeId = `func_${call.funcName}_${call.indent}`;
+    // Sort by line, then by column (left-to-right order)
+    captureData.sort((a, b) => {
+      if (a.line !== b.line) {
+        return a.line - b.line;
+      }
+      return a.column - b.column;
+    });
 
-        // Track which argument positions have numeric values (for funcArg)
-        const numericArgIndices = new Set<number>();
+    // Find inline objects and add comma tokens
+    // Group captures by line AND DEPTH to handle nested objects separately
+    // Each depth level gets its own alignment scope
+    const colonsByLineAndDepth = new Map<string, CaptureData[]>();
+    for (const data of captureData) {
+      if (data.type === ":" && data.parentType === "pair") {
+        const lineText = document.lineAt(data.line).text;
+        const braceDepth = this.getBraceDepthAtColumn(lineText, data.column);
 
-        for (let i = 0; i < args.length; i++) {
-          const arg = args[i];
+        // Group by line AND depth
+        const key = `${data.line}:${braceDepth}`;
+        if (!colonsByLineAndDepth.has(key)) {
+          colonsByLineAndDepth.set(key, []);
+        }
+        colonsByLineAndDepth.get(key)!.push(data);
+      }
+    }
 
-          // Only emit funcArg tokens for NUMERIC arguments
-          // Numbers look good right-aligned, strings don't
-          if (this.isNumericLiteral(arg.text)) {
-            numericArgIndices.add(i);
+    // Track which lines have inline objects at each depth
+    const inlineObjectLineDepths = new Set<string>();
 
-            // Convert relative column (within args) to absolute column
-            const absoluteCol = call.argsStartCol + arg.startCol;
+    // Process ALL depth levels, not just depth 1
+    for (const [key, colons] of colonsByLineAndDepth) {
+      if (colons.length < 2) {
+        continue;
+      }
 
-            captureData.push({
-              line: call.line,
-              column: absoluteCol,
-              text: arg.text,
-              type: "funcArg",
-              indent: call.indent,
-              parentType: "function_arguments",
-              scopeId,
-            });
-          }
-        }
+      const [lineStr, depthStr] = key.split(":");
+      const lineNum = parseInt(lineStr);
+      const depth = parseInt(depthStr);
 
-        // Add comma tokens for left-alignment
-        // Skip commas that precede numeric arguments (those use funcArg right-alignment)
-        for (let i = 0; i < commaPositions.length; i++) {
-          const commaCol = commaPositions[i];
-          const nextArgIndex = i + 1; // Comma i separates arg i from arg i+1
+      inlineObjectLineDepths.add(key);
 
-          // If the NEXT argument is numeric, skip this comma
-          // (funcArg will handle alignment for that position)
-          if (numericArgIndices.has(nextArgIndex)) {
-            continue;
-          }
+      const lineText = document.lineAt(lineNum).text;
 
-          const absoluteCol = call.argsStartCol + commaCol;
+      // Create depth-specific scope for proper grouping
+      const depthScopeId = `${colons[0].scopeId}_depth${depth}`;
 
+      // For depth 1 (outermost objects): find commas between pairs
+      if (depth === 1) {
+        const commaPositions = this.findInlineObjectCommas(lineText, colons);
+
+        for (const commaCol of commaPositions) {
           captureData.push({
-            line: call.line,
-            column: absoluteCol,
+            line: lineNum,
+            column: commaCol,
             text: ",",
             type: ",",
-            indent: call.indent,
-            parentType: "function_arguments",
-            scopeId,
+            indent: colons[0].indent,
+            parentType: "inline_object",
+            scopeId: depthScopeId,
           });
         }
       }
 
-      // Re-sort after adding commas
-      captureData.sort((a, b) => {
-        if (a.line !== b.line) return a.line - b.line;
-        return a.column - b.column;
-      });
-
-      // Count operators per line for shape-based grouping
-      const operatorCountByLine = new Map<number, number>();
-      for (const data of captureData) {
-        const count = operatorCountByLine.get(data.line) ?? 0;
-        operatorCountByLine.set(data.line, count + 1);
-      }
-
-      // Second pass: assign token indices based on sorted order
-      const tokens: AlignmentToken[] = [];
-      const tokenCountByLine: Map<number, number> = new Map();
-
-      for (const data of captureData) {
-        const tokenIndex = tokenCountByLine.get(data.line) ?? 0;
-        tokenCountByLine.set(data.line, tokenIndex + 1);
-
-        tokens.push({
-          ...data,
-          tokenIndex,
-          operatorCountOnLine: operatorCountByLine.get(data.line) ?? 1,
-        });
+      // Find closing brace for this depth level (only for depth 1 outer objects)
+      if (depth === 1) {
+        const closingBraceCol = this.findClosingBraceAtDepth(
+          lineText,
+          colons,
+          depth
+        );
+        if (closingBraceCol !== null) {
+          captureData.push({
+            line: lineNum,
+            column: closingBraceCol,
+            text: "}",
+            type: "}",
+            indent: colons[0].indent,
+            parentType: "inline_object",
+            scopeId: depthScopeId,
+          });
+        }
       }
-
-      tree.delete();
-      return tokens;
-    } catch (error) {
-      console.error("Parse error:", error);
-      return [];
     }
-  }
 
-  /**
-   * Parses JSON using a state machine to correctly find key-value colons.
-   * This handles escaped quotes and other edge cases that regex fails on.
-   */
-  private parseJsonWithRegex(
-    document: ParseableDocument,
-    startLine: number,
-    endLine: number
-  ): AlignmentToken[] {
-    const tokens: AlignmentToken[] = [];
-
-    // Track token index per line
-    const tokenCountByLine: Map<number, number> = new Map();
+    // Also emit } tokens for NESTED objects on inline object lines
+    // These are objects like { auth: false } that may only have 1 colon
+    // but should still have their } aligned across lines
+    for (const key of inlineObjectLineDepths) {
+      const [lineStr, depthStr] = key.split(":");
+      const lineNum = parseInt(lineStr);
+      const depth = parseInt(depthStr);
 
-    for (let lineNum = 0; lineNum < document.lineCount; lineNum++) {
-      // Only process lines in range
-      if (lineNum < startLine || lineNum > endLine) {
+      // Only process depth 1 (outer objects) - we'll find nested } from there
+      if (depth !== 1) {
         continue;
       }
 
       const lineText = document.lineAt(lineNum).text;
-      const indent = getIndentLevel(lineText);
-
-      // Find structural colons using state machine
-      const colonPositions = this.findJsonColons(lineText);
-      const operatorCountOnLine = colonPositions.length;
-
-      for (const colonIndex of colonPositions) {
-        const tokenIndex = tokenCountByLine.get(lineNum) ?? 0;
-        tokenCountByLine.set(lineNum, tokenIndex + 1);
+      const outerColons = colonsByLineAndDepth.get(key);
+      if (!outerColons) {
+        continue;
+      }
 
-        // For JSON without AST, use indent as scope (same indent = same level)
-        const scopeId = `json_indent_${indent}`;
+      // Find all nested objects on this line by looking for { } pairs at depth 2
+      const nestedBraces = this.findNestedObjectBraces(lineText, outerColons);
 
-        tokens.push({
+      for (const nestedBrace of nestedBraces) {
+        captureData.push({
           line: lineNum,
-          column: colonIndex,
-          text: ":",
-          type: ":",
-          indent,
-          parentType: "pair",
-          tokenIndex,
-          scopeId,
-          operatorCountOnLine,
+          column: nestedBrace.insertCol,
+          text: "}",
+          type: "}",
+          indent: outerColons[0].indent,
+          parentType: "inline_object_nested",
+          scopeId: `${outerColons[0].scopeId}_nested_${nestedBrace.depth}`,
         });
       }
     }
 
-    return tokens;
-  }
-
-  /**
-   * State machine to find structural colons in a JSON line.
-   * Correctly handles escaped quotes and colons inside strings.
-   */
-  private findJsonColons(line: string): number[] {
-    const colonPositions: number[] = [];
-    let inString = false;
-    let escaped = false;
-    let lastStringEnd = -1;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (escaped) {
-        escaped = false;
+    // For inline objects with } alignment, handle colons specially:
+    // - Depth 1 (outer object): first colon aligns, OTHER colons get NO padding (skip them)
+    // - Depth 2+ (nested objects): ALL colons get NO padding (only } aligns)
+    //
+    // Mark ALL colons at depth 2+ as nested, AND non-first colons at depth 1
+    // This prevents secondary colons from interfering with alignment
+    for (const data of captureData) {
+      if (data.type !== ":") {
         continue;
       }
+      const lineText = document.lineAt(data.line).text;
+      const depth = this.getBraceDepthAtColumn(lineText, data.column);
 
-      if (char === "\\" && inString) {
-        escaped = true;
+      if (depth >= 2) {
+        // ALL colons at depth 2+ are nested - mark them to skip alignment
+        data.parentType = "inline_object_nested_colon";
+        data.scopeId = `${data.scopeId}_depth${depth}_no_align`;
         continue;
       }
 
-      if (char === '"') {
-        if (!inString) {
-          inString = true;
-        } else {
-          inString = false;
-          lastStringEnd = i;
-        }
+      // Depth 1: check if this line has inline objects
+      const key = `${data.line}:${depth}`;
+      if (!inlineObjectLineDepths.has(key)) {
         continue;
       }
 
-      // Found colon outside string - check if it follows a string key
-      if (char === ":" && !inString && lastStringEnd !== -1) {
-        // Verify only whitespace between string end and colon
-        const between = line.substring(lastStringEnd + 1, i);
-        if (/^\s*$/.test(between)) {
-          colonPositions.push(i);
-        }
-        lastStringEnd = -1; // Reset to avoid matching again
+      // Outer object: first colon aligns, others get NO padding (skip them)
+      const depthColons = colonsByLineAndDepth.get(key);
+      if (!depthColons) {
+        continue;
+      }
+      const minColonCol = Math.min(...depthColons.map((c) => c.column));
+      if (data.column !== minColonCol) {
+        // Mark non-first colons to be skipped (no alignment, no min spacing)
+        data.parentType = "inline_object_secondary_colon";
+        data.scopeId = `${data.scopeId}_depth${depth}_no_align`;
       }
     }
 
-    return colonPositions;
-  }
-
-  /**
-   * Parses YAML using regex (no WASM grammar available).
-   * YAML has unquoted keys followed by colons.
-   */
-  private parseYamlWithRegex(
-    document: ParseableDocument,
-    startLine: number,
-    endLine: number
-  ): AlignmentToken[] {
-    const tokens: AlignmentToken[] = [];
-    const tokenCountByLine: Map<number, number> = new Map();
-
-    for (let lineNum = startLine; lineNum <= endLine; lineNum++) {
-      if (lineNum >= document.lineCount) break;
-
-      const lineText = document.lineAt(lineNum).text;
-      const indent = getIndentLevel(lineText);
-
-      // Skip comments and empty lines
-      const trimmed = lineText.trim();
+    // Find function calls and add argument comma tokens
+    // Collect function call data from captures
+    interface FuncCallData {
+      line: number;
+      funcName: string;
+      argsText: string;
+      argsStartCol: number;
+      indent: number;
+    }
+    const funcCalls: FuncCallData[] = [];
+
+    // Group captures by their parent call_expression node ID
+    const callCaptures = new Map<
+      number,
+      { funcName?: string; argsNode?: TreeNode; callNode?: TreeNode }
+    >();
+    for (const capture of captures) {
       if (
-        trimmed.startsWith("#") ||
-        trimmed === "" ||
-        trimmed === "---" ||
-        trimmed === "..."
+        capture.name === "func_name" ||
+        capture.name === "func_args" ||
+        capture.name === "func_call"
       ) {
-        continue;
-      }
-
-      // Find key: value patterns
-      // Match: word characters (and some special chars) followed by colon
-      // Avoid matching URLs (http://, https://) by checking what follows
-      const colonPositions = this.findYamlColons(lineText);
-      const operatorCountOnLine = colonPositions.length;
-
-      for (const colonIndex of colonPositions) {
-        const tokenIndex = tokenCountByLine.get(lineNum) ?? 0;
-        tokenCountByLine.set(lineNum, tokenIndex + 1);
-
-        // For YAML without AST, use indent as scope (same indent = same level)
-        const scopeId = `yaml_indent_${indent}`;
+        // Find the call_expression ancestor
+        let callNode = capture.node;
+        while (callNode && callNode.type !== "call_expression") {
+          callNode = callNode.parent!;
+        }
+        if (!callNode) {
+          continue;
+        }
 
-        tokens.push({
-          line: lineNum,
-          column: colonIndex,
-          text: ":",
-          type: ":",
-          indent,
-          parentType: "pair",
-          tokenIndex,
-          scopeId,
-          operatorCountOnLine,
-        });
+        const callId = callNode.id;
+        if (!callCaptures.has(callId)) {
+          callCaptures.set(callId, {});
+        }
+        const data = callCaptures.get(callId)!;
+
+        if (capture.name === "func_name") {
+          data.funcName = capture.node.text;
+        } else if (capture.name === "func_args") {
+          data.argsNode = capture.node;
+        } else if (capture.name === "func_call") {
+          data.callNode = capture.node;
+        }
       }
     }
 
-    return tokens;
-  }
-
-  /**
-   * Finds structural colons in a YAML line.
-   * Handles quoted strings and avoids URLs.
-   */
-  private findYamlColons(line: string): number[] {
-    const colonPositions: number[] = [];
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === "'" && !inDoubleQuote) {
-        inSingleQuote = !inSingleQuote;
+    // Process collected function calls
+    for (const [, data] of callCaptures) {
+      if (!data.funcName || !data.argsNode || !data.callNode) {
         continue;
       }
 
-      if (char === '"' && !inSingleQuote) {
-        inDoubleQuote = !inDoubleQuote;
+      const line = data.callNode.startPosition.row;
+      if (line < startLine || line > endLine) {
         continue;
       }
 
-      // Found colon outside quotes
-      if (char === ":" && !inSingleQuote && !inDoubleQuote) {
-        // Check it's not a URL (http://, https://, etc.)
-        const before = line.substring(0, i);
-        if (
-          before.endsWith("http") ||
-          before.endsWith("https") ||
-          before.endsWith("ftp")
-        ) {
-          continue;
-        }
+      const lineText = document.lineAt(line).text;
+      const indent = getIndentLevel(lineText);
 
-        // Check there's a key before the colon (word characters)
-        const keyMatch = before.match(/[\w\-_.]+\s*$/);
-        if (keyMatch) {
-          colonPositions.push(i);
-        }
-      }
+      funcCalls.push({
+        line,
+        funcName: data.funcName,
+        argsText: data.argsNode.text,
+        argsStartCol: data.argsNode.startPosition.column,
+        indent,
+      });
     }
 
-    return colonPositions;
-  }
+    // Group consecutive function calls by (funcName, indent)
+    // Extract:
+    // 1. NUMERIC argument values for right-alignment (funcArg)
+    // 2. Commas for left-alignment of non-numeric arguments
+    funcCalls.sort((a, b) => a.line - b.line);
 
-  /**
-   * SQL regex-based parser.
-   * Handles CREATE TABLE columns, INSERT VALUES tuples, WHERE operators, SELECT AS.
-   *
-   * SQL alignment is statement-scoped: each statement resets alignment context.
-   */
-  private parseSqlWithRegex(
-    document: ParseableDocument,
-    startLine: number,
-    endLine: number
-  ): AlignmentToken[] {
-    const tokens: AlignmentToken[] = [];
-    const text = document.getText();
-    const lines = text.split("\n");
+    for (const call of funcCalls) {
+      // Extract argument values (start position and text)
+      const argsContent = call.argsText;
+      const args = this.extractFunctionArguments(argsContent);
 
-    // Parse statement by statement
-    // Only handles "tabular" patterns: CREATE TABLE, INSERT VALUES, CREATE INDEX
-    let statementId = 0;
-    let inCreateTable = false;
-    let inInsertValues = false;
-    let inCreateIndex = false;
-    let createTableStartLine = -1;
-    let createIndexStartLine = -1;
-    let createIndexLines: Array<{ lineNum: number; lineText: string }> = [];
-
-    for (
-      let lineNum = startLine;
-      lineNum <= endLine && lineNum < lines.length;
-      lineNum++
-    ) {
-      const lineText = lines[lineNum];
-      const trimmed = lineText.trim();
-      const upperTrimmed = trimmed.toUpperCase();
-
-      // Skip comments and empty lines
-      if (trimmed.startsWith("--") || trimmed === "") {
-        // If we were collecting CREATE INDEX lines, process them now
-        if (inCreateIndex && createIndexLines.length > 0) {
-          this.parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
-          createIndexLines = [];
-          inCreateIndex = false;
-        }
-        continue;
-      }
+      // Find comma positions between arguments
+      const commaPositions = this.findFunctionArgumentCommas(argsContent);
+
+      // Use function name + indent as scope
+      // This allows consecutive calls to the same function to align
+      const scopeId = `func_${call.funcName}_${call.indent}`;
+
+      // Track which argument positions have numeric values (for funcArg)
+      const numericArgIndices = new Set<number>();
+
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+
+        // Only emit funcArg tokens for NUMERIC arguments
+        // Numbers look good right-aligned, strings don't
+        if (this.isNumericLiteral(arg.text)) {
+          numericArgIndices.add(i);
+
+          // Convert relative column (within args) to absolute column
+          const absoluteCol = call.argsStartCol + arg.startCol;
 
-      // Detect CREATE TABLE
-      if (upperTrimmed.startsWith("CREATE TABLE")) {
-        // Flush any pending CREATE INDEX
-        if (inCreateIndex && createIndexLines.length > 0) {
-          this.parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
-          createIndexLines = [];
+          captureData.push({
+            line: call.line,
+            column: absoluteCol,
+            text: arg.text,
+            type: "funcArg",
+            indent: call.indent,
+            parentType: "function_arguments",
+            scopeId,
+          });
         }
-        statementId++;
-        inCreateTable = true;
-        inInsertValues = false;
-        inCreateIndex = false;
-        createTableStartLine = lineNum;
-        continue;
       }
 
-      // Detect CREATE INDEX - collect consecutive lines
-      if (upperTrimmed.startsWith("CREATE INDEX")) {
-        if (!inCreateIndex) {
-          // Flush any pending state
-          statementId++;
-          inCreateTable = false;
-          inInsertValues = false;
-          inCreateIndex = true;
-          createIndexStartLine = lineNum;
-          createIndexLines = [];
+      // Add comma tokens for left-alignment
+      // Skip commas that precede numeric arguments (those use funcArg right-alignment)
+      for (let i = 0; i < commaPositions.length; i++) {
+        const commaCol = commaPositions[i];
+        const nextArgIndex = i + 1; // Comma i separates arg i from arg i+1
+
+        // If the NEXT argument is numeric, skip this comma
+        // (funcArg will handle alignment for that position)
+        if (numericArgIndices.has(nextArgIndex)) {
+          continue;
         }
-        createIndexLines.push({ lineNum, lineText });
-        continue;
-      } else if (inCreateIndex && createIndexLines.length > 0) {
-        // No longer on CREATE INDEX lines, process collected lines
-        this.parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
-        createIndexLines = [];
-        inCreateIndex = false;
-      }
 
-      // Detect INSERT INTO
-      if (
-        upperTrimmed.startsWith("INSERT INTO") ||
-        upperTrimmed.startsWith("INSERT ")
-      ) {
-        statementId++;
-        inCreateTable = false;
-        inInsertValues = upperTrimmed.includes("VALUES");
-        continue;
-      }
+        const absoluteCol = call.argsStartCol + commaCol;
 
-      // Detect VALUES
-      if (
-        upperTrimmed.startsWith("VALUES") ||
-        upperTrimmed.includes(") VALUES")
-      ) {
-        inInsertValues = true;
-        continue;
+        captureData.push({
+          line: call.line,
+          column: absoluteCol,
+          text: ",",
+          type: ",",
+          indent: call.indent,
+          parentType: "function_arguments",
+          scopeId,
+        });
       }
+    }
 
-      // Process INSERT VALUES tuples (before checking for ;)
-      if (inInsertValues && trimmed.startsWith("(")) {
-        this.parseSqlValuesTuple(lineText, lineNum, tokens, statementId);
+    // Re-sort after adding commas
+    captureData.sort((a, b) => {
+      if (a.line !== b.line) {
+        return a.line - b.line;
       }
+      return a.column - b.column;
+    });
 
-      // End of statement
-      if (trimmed.endsWith(";")) {
-        if (inCreateTable) {
-          this.parseSqlCreateTableColumns(
-            lines,
-            createTableStartLine,
-            lineNum,
-            tokens,
-            statementId
-          );
-        }
-        inCreateTable = false;
-        inInsertValues = false;
-        continue;
-      }
+    // Count operators per line for shape-based grouping
+    const operatorCountByLine = new Map<number, number>();
+    for (const data of captureData) {
+      const count = operatorCountByLine.get(data.line) ?? 0;
+      operatorCountByLine.set(data.line, count + 1);
     }
 
-    // Flush any remaining CREATE INDEX lines
-    if (inCreateIndex && createIndexLines.length > 0) {
-      this.parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
+    // Second pass: assign token indices based on sorted order
+    const tokens: AlignmentToken[] = [];
+    const tokenCountByLine: Map<number, number> = new Map();
+
+    for (const data of captureData) {
+      const tokenIndex = tokenCountByLine.get(data.line) ?? 0;
+      tokenCountByLine.set(data.line, tokenIndex + 1);
+
+      tokens.push({
+        ...data,
+        tokenIndex: data.tokenIndex ?? tokenIndex,
+        operatorCountOnLine: operatorCountByLine.get(data.line) ?? 1,
+      });
     }
 
     return tokens;
   }
 
   /**
-   * Parse a group of consecutive CREATE INDEX statements.
+   * Applies document edits to the cached tree for a document.
+   * Call this for every change event so the next parse can be incremental.
+   *
+   * Cached tokens after an edit are shifted in place (their `line` is updated),
+   * and tokens on edited lines are dropped.
    */
-  private parseSqlCreateIndexGroup(
-    indexLines: Array<{ lineNum: number; lineText: string }>,
-    tokens: AlignmentToken[],
-    statementId: number
-  ): void {
-    if (indexLines.length < 2) {
-      // Single CREATE INDEX line - still emit tokens for potential future grouping
-      if (indexLines.length === 1) {
-        this.parseSqlCreateIndex(
-          indexLines[0].lineText,
-          indexLines[0].lineNum,
-          tokens,
-          statementId
-        );
-      }
+  applyEdits(uri: string, changes: readonly DocumentChange[]): void {
+    const cache = this.documents.get(uri);
+    if (!cache) {
       return;
     }
 
-    // Multiple CREATE INDEX lines - they share the same statementId for grouping
-    for (const { lineText, lineNum } of indexLines) {
-      this.parseSqlCreateIndex(lineText, lineNum, tokens, statementId);
+    for (const change of changes) {
+      const { start, end } = change.range;
+      const newLines = change.text.split("\n");
+      const lastNewLine = newLines[newLines.length - 1];
+      const newEndLine = start.line + newLines.length - 1;
+      const newEndCharacter =
+        newLines.length === 1
+          ? start.character + lastNewLine.length
+          : lastNewLine.length;
+
+      cache.tree.edit({
+        startIndex: change.rangeOffset,
+        oldEndIndex: change.rangeOffset + change.rangeLength,
+        newEndIndex: change.rangeOffset + change.text.length,
+        startPosition: { row: start.line, column: start.character },
+        oldEndPosition: { row: end.line, column: end.character },
+        newEndPosition: { row: newEndLine, column: newEndCharacter },
+      });
+
+      // Shift tokens below the edit, drop tokens on edited lines
+      const lineDelta = newEndLine - end.line;
+      const shifted = new Map<number, AlignmentToken[]>();
+      for (const [line, tokens] of cache.lineTokens) {
+        if (line < start.line) {
+          shifted.set(line, tokens);
+        } else if (line > end.line) {
+          for (const token of tokens) {
+            token.line = line + lineDelta;
+          }
+          shifted.set(line + lineDelta, tokens);
+        }
+      }
+      cache.lineTokens = shifted;
     }
+
+    cache.edited = true;
   }
 
   /**
-   * Parse CREATE TABLE column definitions.
-   * Aligns: column_name TYPE CONSTRAINTS
+   * Drops cached parse state for a document (e.g., when it is closed).
    */
-  private parseSqlCreateTableColumns(
-    lines: string[],
-    startLine: number,
-    endLine: number,
-    tokens: AlignmentToken[],
-    statementId: number
-  ): void {
-    // Columns are typically on lines between CREATE TABLE ( and );
-    // Each column line: name TYPE [CONSTRAINTS]
-    const columnLines: Array<{
-      lineNum: number;
-      parts: string[];
-      indent: number;
-    }> = [];
-
-    for (let lineNum = startLine + 1; lineNum < endLine; lineNum++) {
-      const lineText = lines[lineNum];
-      const trimmed = lineText.trim();
-      const indent = getIndentLevel(lineText);
-
-      // Skip empty lines, closing paren, constraints like PRIMARY KEY, etc.
-      if (
-        trimmed === "" ||
-        trimmed.startsWith(")") ||
-        trimmed.toUpperCase().startsWith("PRIMARY KEY") ||
-        trimmed.toUpperCase().startsWith("FOREIGN KEY") ||
-        trimmed.toUpperCase().startsWith("UNIQUE") ||
-        trimmed.toUpperCase().startsWith("CHECK") ||
-        trimmed.toUpperCase().startsWith("CONSTRAINT")
-      ) {
-        continue;
-      }
+  closeDocument(uri: string): void {
+    const cache = this.documents.get(uri);
+    if (cache) {
+      cache.tree.delete();
+      this.documents.delete(uri);
+    }
+  }
 
-      // Parse column definition: name TYPE [CONSTRAINTS...]
-      // Remove trailing comma
-      const cleanLine = trimmed.replace(/,\s*$/, "");
-      const parts = cleanLine.split(/\s+/);
+  /**
+   * Returns the usable cache for a document, discarding stale state.
+   * A cache is stale when the language changed or the text changed
+   * without the edits being reported through applyEdits.
+   */
+  private getDocumentCache(
+    document: ParseableDocument,
+    lang: string,
+    text: string
+  ): DocumentCache | null {
+    if (!document.uri) {
+      return null;
+    }
 
-      if (parts.length >= 2) {
-        columnLines.push({ lineNum, parts, indent });
-      }
+    const cache = this.documents.get(document.uri);
+    if (!cache) {
+      return null;
     }
 
-    if (columnLines.length < 2) return; // Need at least 2 lines to align
+    if (cache.lang !== lang || (!cache.edited && cache.text !== text)) {
+      this.closeDocument(document.uri);
+      return null;
+    }
 
-    // Use array_ prefix for scopeId to enable cross-line alignment in Grouper
-    const scopeId = `array_sql_create_${statementId}`;
+    return cache;
+  }
 
-    // Emit tokens for column name and type alignment
-    for (const col of columnLines) {
-      const lineText = lines[col.lineNum];
-      const colNameStart = lineText.indexOf(col.parts[0]);
+  /**
+   * Drops cached tokens on lines whose syntax changed between the cached
+   * (edited) tree and its incremental reparse.
+   *
+   * Top-level nodes that Tree-sitter reused keep their node IDs, so their
+   * tokens (and AST-based scope IDs) stay valid. The root node is always new,
+   * so root-level scope IDs are carried over to the new root. A root of
+   * another type (a file that became an `ERROR` node) drops every line.
+   */
+  private invalidateChangedLines(cache: DocumentCache, newTree: Tree): void {
+    const oldRoot = cache.tree.rootNode;
+    const newRoot = newTree.rootNode;
+    if (oldRoot.type !== newRoot.type) {
+      cache.lineTokens.clear();
+      return;
+    }
+    const reusedIds = new Set(oldRoot.children.map((child) => child.id));
 
-      // Token for column name (to pad after it so types align)
-      tokens.push({
-        line: col.lineNum,
-        column: colNameStart,
-        text: col.parts[0],
-        type: ":", // Using : type for padAfter behavior
-        indent: col.indent,
-        parentType: "sql_column_def",
-        tokenIndex: 0,
-        scopeId,
-        operatorCountOnLine: 2,
-      });
+    for (const child of newRoot.children) {
+      if (reusedIds.has(child.id)) {
+        continue;
+      }
+      for (
+        let line = child.startPosition.row;
+        line <= child.endPosition.row;
+        line++
+      ) {
+        cache.lineTokens.delete(line);
+      }
+    }
 
-      // Token for type (to pad after it so constraints align)
-      if (col.parts.length >= 2) {
-        const typeStart = lineText.indexOf(
-          col.parts[1],
-          colNameStart + col.parts[0].length
-        );
-        if (typeStart >= 0) {
-          tokens.push({
-            line: col.lineNum,
-            column: typeStart,
-            text: col.parts[1],
-            type: ":", // Using : type for padAfter behavior
-            indent: col.indent,
-            parentType: "sql_column_def",
-            tokenIndex: 1,
-            scopeId,
-            operatorCountOnLine: 2,
-          });
+    const oldRootScope = getEnclosingScopeId(oldRoot);
+    const newRootScope = getEnclosingScopeId(newRoot);
+    if (oldRootScope === newRootScope) {
+      return;
+    }
+    for (const tokens of cache.lineTokens.values()) {
+      for (const token of tokens) {
+        if (
+          token.scopeId === oldRootScope ||
+          token.scopeId.startsWith(`${oldRootScope}_`)
+        ) {
+          token.scopeId =
+            newRootScope + token.scopeId.slice(oldRootScope.length);
         }
       }
     }
   }
 
   /**
-   * Parse CREATE INDEX statement.
-   * Aligns: CREATE INDEX name ON table USING method (columns)
+   * Finds runs of lines in [startLine, endLine] that have no cached tokens.
    */
-  private parseSqlCreateIndex(
-    lineText: string,
-    lineNum: number,
-    tokens: AlignmentToken[],
-    statementId: number
-  ): void {
-    const indent = getIndentLevel(lineText);
-    const upper = lineText.toUpperCase();
-    // Use array_ prefix to enable cross-line alignment in Grouper
-    const scopeId = `array_sql_index_${statementId}`;
-
-    // Find ON keyword position
-    const onMatch = upper.match(/\bON\b/);
-    if (onMatch && onMatch.index !== undefined) {
-      tokens.push({
-        line: lineNum,
-        column: onMatch.index,
-        text: "ON",
-        type: "=", // Using = for padBefore
-        indent,
-        parentType: "sql_index",
-        tokenIndex: 0,
-        scopeId,
-        operatorCountOnLine: 2,
-      });
+  private findUncachedRanges(
+    lineTokens: Map<number, AlignmentToken[]>,
+    startLine: number,
+    endLine: number
+  ): LineRange[] {
+    const ranges: LineRange[] = [];
+
+    for (let line = startLine; line <= endLine; line++) {
+      if (lineTokens.has(line)) {
+        continue;
+      }
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === line - 1) {
+        last.end = line;
+      } else {
+        ranges.push({ start: line, end: line });
+      }
     }
 
-    // Find USING METHOD pattern and emit token for the method name
-    // Expected: USING GIST (path) -> USING GIST  (path) to align with USING BTREE (path)
-    const usingMethodMatch = upper.match(/\bUSING\s+(\w+)/);
-    if (usingMethodMatch && usingMethodMatch.index !== undefined) {
-      const methodName = usingMethodMatch[1];
-      const methodStart =
-        usingMethodMatch.index + usingMethodMatch[0].indexOf(methodName);
-      // Get the actual case method name from original line
-      const actualMethod = lineText.substring(
-        methodStart,
-        methodStart + methodName.length
-      );
+    return ranges;
+  }
 
-      tokens.push({
-        line: lineNum,
-        column: methodStart,
-        text: actualMethod,
-        type: ":", // Using : for padAfter - pad after method name
-        indent,
-        parentType: "sql_index",
-        tokenIndex: 1,
-        scopeId,
-        operatorCountOnLine: 2,
-      });
+  /**
+   * Gets the lines a line scanner reads for a range ending at endLine: every
+   * line from the top of the document, but none after the range.
+   *
+   * Brackets, comments and multi-line strings open at the range start can
+   * begin any number of lines above it, so the scanners need the whole
+   * prefix to start in the right state.
+   */
+  private getScanLines(document: ParseableDocument, endLine: number): string[] {
+    const lines: string[] = [];
+    const lastLine = Math.min(endLine, document.lineCount - 1);
+    for (let line = 0; line <= lastLine; line++) {
+      lines.push(document.lineAt(line).text);
     }
+    return lines;
   }
 
   /**
-   * Parse INSERT VALUES tuple.
-   * Aligns comma-separated values across tuples.
-   * Emits comma tokens - padding goes AFTER comma, BEFORE next value.
+   * Parses JSON, JSONC and JSON5 with a line scanner.
+   * Aligns the `:` of object members, each object being its own scope,
+   * and trailing comments.
    */
-  private parseSqlValuesTuple(
-    lineText: string,
-    lineNum: number,
-    tokens: AlignmentToken[],
-    statementId: number
-  ): void {
-    const indent = getIndentLevel(lineText);
-
-    // Find all comma positions (structural, not inside strings)
-    const commaPositions = this.findSqlCommas(lineText);
-
-    // Need at least one comma to align
-    if (commaPositions.length === 0) return;
-
-    // Use array_ prefix for scopeId to enable cross-line alignment in Grouper
-    const scopeId = `array_sql_values_${statementId}`;
-    const operatorCountOnLine = commaPositions.length;
+  private parseJsonWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractJsonTokens(lines, 0, "json").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-    // Emit tokens for each comma (except the last one before closing paren)
-    // Padding goes AFTER the comma to align the NEXT value
-    // Emit tokens for all commas (padding goes after each comma)
-    for (let i = 0; i < commaPositions.length; i++) {
-      const commaPos = commaPositions[i];
+  /**
+   * Parses YAML with a structural line scanner (no WASM grammar available).
+   * Aligns the `:` of block mapping pairs; each mapping is its own scope.
+   */
+  private parseYamlWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractYamlTokens(lines, 0, "yaml").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-      // Emit comma token - padding goes after comma
-      tokens.push({
-        line: lineNum,
-        column: commaPos,
-        text: ",",
-        type: ":", // padAfter - padding goes after comma
-        indent,
-        parentType: "sql_values_comma",
-        tokenIndex: i,
-        scopeId,
-        operatorCountOnLine,
-      });
-    }
+  /**
+   * Parses TOML with a line scanner (no WASM grammar available).
+   * Aligns the `=` of key/value pairs and trailing comments;
+   * `[table]` and `[[array]]` headers start a new scope.
+   */
+  private parseTomlWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractTomlTokens(lines, 0, "toml").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
   }
 
   /**
-   * Find structural commas in SQL (not inside strings).
+   * Parses HTML and XML with a line scanner (no WASM grammars available).
+   * Aligns the `=` of attributes within one tag.
    */
-  private findSqlCommas(line: string): number[] {
-    const positions: number[] = [];
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-    let parenDepth = 0;
+  private parseMarkupWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractMarkupTokens(lines, 0, "markup").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const prevChar = i > 0 ? line[i - 1] : "";
+  /**
+   * Parses SQL statement by statement (no WASM grammar available).
+   */
+  private parseSqlWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractSqlTokens(lines).filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-      // Handle escaped quotes
-      if (char === "'" && prevChar !== "\\" && !inDoubleQuote) {
-        inSingleQuote = !inSingleQuote;
-        continue;
-      }
-      if (char === '"' && prevChar !== "\\" && !inSingleQuote) {
-        inDoubleQuote = !inDoubleQuote;
-        continue;
-      }
+  /**
+   * Parses Protobuf with a line scanner (no WASM grammar available).
+   * Aligns message fields as columns, enum value and option `=` and
+   * trailing comments.
+   */
+  private parseProtoWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractProtoTokens(lines, 0, "proto").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-      if (!inSingleQuote && !inDoubleQuote) {
-        if (char === "(") parenDepth++;
-        if (char === ")") parenDepth--;
+  /**
+   * Parses GraphQL with a line scanner (no WASM grammar available).
+   * Aligns the `:` of definition fields and multi-line arguments.
+   */
+  private parseGraphqlWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractGraphqlTokens(lines, 0, "graphql").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-        // Only capture top-level commas (inside the VALUES tuple, not nested)
-        if (char === "," && parenDepth === 1) {
-          positions.push(i);
-        }
-      }
-    }
+  /**
+   * Parses HCL (Terraform) with a line scanner (no WASM grammar available).
+   * Aligns attribute `=` per block and trailing comments, like `terraform fmt`:
+   * a line whose value opens a multi-line expression (`tags = {`) doesn't
+   * align, and heredoc bodies are skipped.
+   */
+  private parseHclWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractHclTokens(lines, 0, "hcl").filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
+  }
 
-    return positions;
+  /**
+   * Parses dotenv, INI and .properties files line by line.
+   * Aligns the `=` (or .properties `:`) of `KEY=value` lines and trailing
+   * comments; `[section]` headers start a new scope.
+   */
+  private parseKeyValueWithRegex(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number,
+    dialect: KeyValueDialect
+  ): AlignmentToken[] {
+    const lines = this.getScanLines(document, endLine);
+    return extractKeyValueTokens(lines, 0, dialect, dialect).filter(
+      (t) => t.line >= startLine && t.line <= endLine
+    );
   }
 
   /**
    * Parses markdown files by extracting and parsing fenced code blocks
-   * with supported language identifiers.
+   * with supported language identifiers, and aligning the `|` of tables.
+   *
+   * Fences follow CommonMark: three or more backticks or tildes, closed by
+   * a fence of the same character at least as long, inside list items and
+   * blockquotes too. The indentation and `>` markers stripped from content
+   * lines are added back to token columns.
+   *
+   * A table is a header row followed by a delimiter row (`| --- | :-: |`)
+   * with as many cells, and runs to the next blank line or block. Each `|`
+   * closing a cell is a column; cells pad by their delimiter's alignment.
    */
-  private async parseMarkdownCodeBlocks(
+  private async parseMarkdown(
     document: ParseableDocument,
     startLine: number,
     endLine: number
@@ -1242,8 +1154,11 @@ export class ParserService {
       typescriptreact: "tsx",
       js: "typescript", // Parse JS with TS parser
       javascript: "typescript",
+      jsx: "tsx",
+      javascriptreact: "tsx",
       json: "json",
       jsonc: "json",
+      json5: "json",
       yaml: "yaml",
       yml: "yaml",
       python: "python",
@@ -1251,76 +1166,237 @@ export class ParserService {
       css: "css",
       scss: "css",
       less: "css",
+      rust: "rust",
+      rs: "rust",
+      toml: "toml",
+      ini: "ini",
+      dotenv: "dotenv",
+      env: "dotenv",
+      properties: "properties",
+      hcl: "hcl",
+      terraform: "hcl",
+      tf: "hcl",
+      proto: "proto",
+      protobuf: "proto",
+      graphql: "graphql",
+      gql: "graphql",
+      c: "cpp",
+      cpp: "cpp",
+      "c++": "cpp",
+      html: "markup",
+      xml: "markup",
+      svg: "markup",
     };
 
     // Find all fenced code blocks
-    const codeBlocks: Array<{
-      lang: string;
-      startLine: number;
-      endLine: number;
-      content: string;
-    }> = [];
+    const codeBlocks: EmbeddedBlock[] = [];
 
-    let inBlock = false;
-    let blockLang = "";
-    let blockStartLine = 0;
-    let blockContent: string[] = [];
+    let fence: {
+      marker: string;
+      indent: number;
+      container: number;
+      quoteDepth: number;
+      lang: string | undefined;
+      startLine: number;
+      content: string[];
+      columnOffsets: number[];
+    } | null = null;
+    // Content columns of the open list items, innermost last
+    const listColumns: number[] = [];
+    let quoteDepth = 0;
+
+    const tableTokens: AlignmentToken[] = [];
+    let table: MarkdownTable | null = null;
+
+    const closeFence = (): void => {
+      if (fence?.lang && fence.content.length > 0) {
+        codeBlocks.push({
+          lang: fence.lang,
+          startLine: fence.startLine,
+          endLine: fence.startLine + fence.content.length - 1,
+          content: fence.content.join("\n"),
+          columnOffsets: fence.columnOffsets,
+        });
+      }
+      fence = null;
+    };
 
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-
-      if (!inBlock && trimmed.startsWith("```")) {
-        // Start of code block
-        const langMatch = trimmed.match(/^```(\w+)/);
-        if (langMatch) {
-          const lang = langMatch[1].toLowerCase();
-          if (langAliases[lang]) {
-            inBlock = true;
-            blockLang = langAliases[lang];
-            blockStartLine = i + 1; // Content starts on next line
-            blockContent = [];
-          }
+      const prefix = lines[i].match(BLOCKQUOTE_PREFIX)?.[0] ?? "";
+      const depth = prefix.split(">").length - 1;
+      const body = lines[i].substring(prefix.length);
+      const indent = getIndentLevel(body);
+
+      if (fence && depth < fence.quoteDepth) {
+        // The blockquote holding the fence ended
+        closeFence();
+      }
+      if (fence) {
+        const close = body.match(/^( *)(`{3,}|~{3,})\s*$/);
+        if (
+          close &&
+          close[2][0] === fence.marker[0] &&
+          close[2].length >= fence.marker.length &&
+          close[1].length < fence.container + 4
+        ) {
+          closeFence();
+          continue;
         }
-      } else if (inBlock && trimmed === "```") {
-        // End of code block
-        if (blockContent.length > 0) {
-          codeBlocks.push({
-            lang: blockLang,
-            startLine: blockStartLine,
-            endLine: i - 1,
-            content: blockContent.join("\n"),
-          });
+        // Up to the fence's own indentation is stripped from content lines
+        const strip = Math.min(indent, fence.indent);
+        fence.content.push(body.substring(strip));
+        fence.columnOffsets.push(prefix.length + strip);
+        continue;
+      }
+
+      if (depth !== quoteDepth) {
+        // Lists never continue across blockquote boundaries
+        listColumns.length = 0;
+        quoteDepth = depth;
+      }
+      if (table) {
+        if (
+          body.trim() === "" ||
+          depth !== table.quoteDepth ||
+          /^ {0,3}(#|`{3}|~{3})/.test(body)
+        ) {
+          table = null;
+        } else {
+          tableTokens.push(
+            ...extractTableRowTokens(body, i, prefix.length, table)
+          );
+          continue;
         }
-        inBlock = false;
-        blockLang = "";
-        blockContent = [];
-      } else if (inBlock) {
-        blockContent.push(line);
       }
+      if (body.trim() === "") {
+        continue;
+      }
+      while (
+        listColumns.length > 0 &&
+        listColumns[listColumns.length - 1] > indent
+      ) {
+        listColumns.pop();
+      }
+
+      // Table header: the next line must be a delimiter row in this quote
+      const nextPrefix = lines[i + 1]?.match(BLOCKQUOTE_PREFIX)?.[0] ?? "";
+      const header = splitTableRow(body);
+      const aligns: CellAlignment[] | null =
+        header && nextPrefix.split(">").length - 1 === depth
+          ? parseTableDelimiterRow(
+              lines[i + 1].substring(nextPrefix.length)
+            )
+          : null;
+      if (header && aligns?.length === header.length) {
+        table = { scopeId: `md_table_${i}`, aligns, indent, quoteDepth: depth };
+        tableTokens.push(
+          ...extractTableRowTokens(body, i, prefix.length, table)
+        );
+        continue;
+      }
+
+      // A fence may open a list item's content on the marker line
+      let container = listColumns[listColumns.length - 1] ?? 0;
+      let start = 0;
+      const item = body.match(LIST_ITEM);
+      if (item && indent < container + 4) {
+        const spacing = item[3].length;
+        const gap = spacing >= 1 && spacing <= 4 ? spacing : 1;
+        container = indent + item[2].length + gap;
+        listColumns.push(container);
+        start = container;
+      }
+
+      const open = body.substring(start).match(CODE_FENCE);
+      if (!open) {
+        continue;
+      }
+      const fenceIndent = start + open[1].length;
+      const info = open[3].trim();
+      // Backtick fences can't have backticks in their info string
+      if (
+        fenceIndent - container > 3 ||
+        (open[2][0] === "`" && info.includes("`"))
+      ) {
+        continue;
+      }
+      const infoLang = info.match(/^[\w+-]+/)?.[0].toLowerCase();
+      fence = {
+        marker: open[2],
+        indent: fenceIndent,
+        container,
+        quoteDepth: depth,
+        lang: infoLang ? langAliases[infoLang] : undefined,
+        startLine: i + 1, // Content starts on next line
+        content: [],
+        columnOffsets: [],
+      };
     }
+    // An unclosed fence runs to the end of the document
+    closeFence();
+
+    const blockTokens = await this.parseEmbeddedBlocks(
+      codeBlocks,
+      startLine,
+      endLine,
+      "md_block"
+    );
+    return [
+      ...blockTokens,
+      ...tableTokens.filter((t) => t.line >= startLine && t.line <= endLine),
+    ];
+  }
 
-    // Parse each code block with its appropriate parser
-    for (const block of codeBlocks) {
+  /**
+   * Parses Vue, Svelte and Astro components by extracting their `<script>`
+   * and `<style>` blocks (and Astro frontmatter) and parsing each with the
+   * grammar its `lang` attribute names.
+   */
+  private async parseComponentBlocks(
+    document: ParseableDocument,
+    startLine: number,
+    endLine: number
+  ): Promise<AlignmentToken[]> {
+    const blocks = findComponentBlocks(document.getText().split("\n"));
+    return this.parseEmbeddedBlocks(blocks, startLine, endLine, "sfc_block");
+  }
+
+  /**
+   * Parses embedded code blocks, keeping the tokens inside the line range.
+   * Each block gets its own scope, so blocks never align with each other.
+   */
+  private async parseEmbeddedBlocks(
+    blocks: EmbeddedBlock[],
+    startLine: number,
+    endLine: number,
+    scopePrefix: string
+  ): Promise<AlignmentToken[]> {
+    const tokens: AlignmentToken[] = [];
+
+    for (const block of blocks) {
       // Skip blocks outside the visible range
       if (block.endLine < startLine || block.startLine > endLine) {
         continue;
       }
 
-      // Each code block gets a unique scope to prevent cross-block alignment
-      const blockScopeId = `md_block_${block.startLine}`;
-
       const blockTokens = await this.parseCodeBlockContent(
         block.content,
         block.lang,
         block.startLine,
-        blockScopeId
+        `${scopePrefix}_${block.startLine}`
       );
+      if (block.columnOffsets) {
+        // Restore the indentation and `>` markers stripped from each line
+        for (const token of blockTokens) {
+          token.column += block.columnOffsets[token.line - block.startLine];
+        }
+      }
 
       tokens.push(...blockTokens);
     }
 
-    return tokens;
+    // A block overlapping the range may reach past it
+    return tokens.filter((t) => t.line >= startLine && t.line <= endLine);
   }
 
   /**
@@ -1337,81 +1413,41 @@ export class ParserService {
 
     // Use the appropriate parser based on language
     if (lang === "json") {
-      // Parse JSON with regex
-      const lines = content.split("\n");
-      const tokenCountByLine: Map<number, number> = new Map();
-
-      for (let i = 0; i < lines.length; i++) {
-        const lineText = lines[i];
-        const docLine = lineOffset + i;
-        const colonPositions = this.findJsonColons(lineText);
-        const indent = getIndentLevel(lineText);
-        const operatorCountOnLine = colonPositions.length;
-
-        for (const colonPos of colonPositions) {
-          const tokenIndex = tokenCountByLine.get(docLine) ?? 0;
-          tokenCountByLine.set(docLine, tokenIndex + 1);
-
-          // Use block scope + indent for scoping within the block
-          const scopeId = `${blockScopeId}_indent_${indent}`;
-
-          tokens.push({
-            line: docLine,
-            column: colonPos,
-            text: ":",
-            type: ":",
-            indent,
-            parentType: "pair",
-            tokenIndex,
-            scopeId,
-            operatorCountOnLine,
-          });
-        }
-      }
+      tokens.push(
+        ...extractJsonTokens(content.split("\n"), lineOffset, blockScopeId)
+      );
     } else if (lang === "yaml") {
-      // Parse YAML with regex
+      tokens.push(
+        ...extractYamlTokens(content.split("\n"), lineOffset, blockScopeId)
+      );
+    } else if (lang === "toml") {
+      tokens.push(
+        ...extractTomlTokens(content.split("\n"), lineOffset, blockScopeId)
+      );
+    } else if (lang === "markup") {
+      tokens.push(
+        ...extractMarkupTokens(content.split("\n"), lineOffset, blockScopeId)
+      );
+    } else if (lang === "proto" || lang === "graphql") {
       const lines = content.split("\n");
-      const tokenCountByLine: Map<number, number> = new Map();
-
-      for (let i = 0; i < lines.length; i++) {
-        const lineText = lines[i];
-        const docLine = lineOffset + i;
-        const colonPositions = this.findYamlColons(lineText);
-        const indent = getIndentLevel(lineText);
-
-        // Skip comments and empty lines
-        const trimmed = lineText.trim();
-        if (
-          trimmed.startsWith("#") ||
-          trimmed === "" ||
-          trimmed === "---" ||
-          trimmed === "..."
-        ) {
-          continue;
-        }
-
-        const operatorCountOnLine = colonPositions.length;
-
-        for (const colonPos of colonPositions) {
-          const tokenIndex = tokenCountByLine.get(docLine) ?? 0;
-          tokenCountByLine.set(docLine, tokenIndex + 1);
-
-          // Use block scope + indent for scoping within the block
-          const scopeId = `${blockScopeId}_indent_${indent}`;
-
-          tokens.push({
-            line: docLine,
-            column: colonPos,
-            text: ":",
-            type: ":",
-            indent,
-            parentType: "pair",
-            tokenIndex,
-            scopeId,
-            operatorCountOnLine,
-          });
-        }
-      }
+      tokens.push(
+        ...(lang === "proto"
+          ? extractProtoTokens(lines, lineOffset, blockScopeId)
+          : extractGraphqlTokens(lines, lineOffset, blockScopeId))
+      );
+    } else if (lang === "hcl") {
+      tokens.push(
+        ...extractHclTokens(content.split("\n"), lineOffset, blockScopeId)
+      );
+    } else if (lang === "dotenv" || lang === "ini" || lang === "properties") {
+      tokens.push(
+        ...extractKeyValueTokens(
+          content.split("\n"),
+          lineOffset,
+          lang,
+          blockScopeId
+        )
+      );
     } else {
       // Use Tree-sitter for other languages
       const loaded = await this.loadLanguage(lang);
@@ -1453,6 +1489,19 @@ export class ParserService {
           const blockLine = node.startPosition.row;
           const docLine = lineOffset + blockLine;
 
+          if (capture.name === "cell") {
+            captureData.push({
+              line: docLine,
+              column: node.startPosition.column,
+              text: node.text.split("\n")[0],
+              type: "cell",
+              indent: getIndentLevel(lines[blockLine] || ""),
+              parentType: getParentType(node),
+              scopeId: `${blockScopeId}_${getScopeId(node)}`,
+            });
+            continue;
+          }
+
           if (isInsideStringOrComment(node)) {
             continue;
           }
@@ -2120,6 +2169,10 @@ export class ParserService {
     for (const query of this.queries.values()) {
       query.delete();
     }
+    for (const cache of this.documents.values()) {
+      cache.tree.delete();
+    }
+    this.documents.clear();
     this.languages.clear();
     this.queries.clear();
   }
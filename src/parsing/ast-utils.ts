@@ -41,6 +41,8 @@ export function normalizeOperator(text: string): OperatorType | null {
   switch (text) {
     case "=":
       return "=";
+    case "=>":
+      return "=>";
     case ":":
       return ":";
     case ",":
@@ -89,6 +91,11 @@ const ARRAY_LIKE_TYPES = new Set([
   "tuple",
   "tuple_type",
   "type_arguments",
+  // Go: specs in a const/var/type block, elements in a composite literal
+  "const_declaration",
+  "var_declaration",
+  "type_declaration",
+  "literal_value",
 ]);
 
 // Scope types that should stop the search
@@ -105,6 +112,10 @@ const BLOCK_SCOPE_TYPES = new Set([
   "for_statement",
   "while_statement",
   "program",
+  "match_block", // Rust: arms of different matches never align
+  // JSX: attributes align within their element only
+  "jsx_opening_element",
+  "jsx_self_closing_element",
 ]);
 
 /**
@@ -115,7 +126,16 @@ const BLOCK_SCOPE_TYPES = new Set([
  * use the array's scope so that sibling inline objects can align together.
  */
 export function getScopeId(node: TreeNode): string {
-  let current: TreeNode | null = node.parent;
+  return getEnclosingScopeId(node.parent);
+}
+
+/**
+ * Gets the scope identifier of tokens whose nearest ancestor is `ancestor`.
+ * An incremental reparse replaces the root node, so tokens kept at the top
+ * level move from the old root's scope to the new root's.
+ */
+export function getEnclosingScopeId(ancestor: TreeNode | null): string {
+  let current: TreeNode | null = ancestor;
   let firstObject: TreeNode | null = null;
 
   while (current) {
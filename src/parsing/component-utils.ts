@@ -0,0 +1,96 @@
+/**
+ * Embedded code blocks of Vue, Svelte and Astro components.
+ *
+ * Components hold code in other languages: `<script>` and `<style>`
+ * blocks, and Astro's `---` frontmatter. Each block is parsed with its
+ * own grammar and its tokens shifted to document lines.
+ */
+
+/**
+ * A block of code embedded in another document (Markdown fence,
+ * component `<script>`), parsed with its own grammar.
+ */
+export interface EmbeddedBlock {
+  /** Parser language of the block */
+  lang: string;
+  /** Document line of the block's first content line */
+  startLine: number;
+  /** Document line of the block's last content line */
+  endLine: number;
+  content: string;
+  /** Columns stripped from the start of each content line, if any */
+  columnOffsets?: number[];
+}
+
+/**
+ * Finds the `<script>` and `<style>` blocks (and Astro frontmatter) of a
+ * Vue, Svelte or Astro component, each with the grammar its `lang`
+ * attribute names. Blocks in other languages are skipped.
+ */
+export function findComponentBlocks(lines: string[]): EmbeddedBlock[] {
+  const blocks: EmbeddedBlock[] = [];
+
+  // Script and style languages by `lang` attribute
+  const scriptLangs: Record<string, string> = {
+    ts: "typescript",
+    typescript: "typescript",
+    tsx: "tsx",
+    js: "typescript", // Parse JS with TS parser
+    javascript: "typescript",
+    jsx: "tsx",
+  };
+  const styleLangs: Record<string, string> = {
+    css: "css",
+    scss: "css",
+    less: "css",
+    postcss: "css",
+  };
+
+  let block: { lang: string; startLine: number; closing: string } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    if (block) {
+      const isEnd =
+        block.closing === "---"
+          ? trimmed === "---"
+          : trimmed.startsWith(block.closing);
+      if (isEnd) {
+        if (i > block.startLine) {
+          blocks.push({
+            lang: block.lang,
+            startLine: block.startLine,
+            endLine: i - 1,
+            content: lines.slice(block.startLine, i).join("\n"),
+          });
+        }
+        block = null;
+      }
+      continue;
+    }
+
+    // Astro frontmatter: a `---` fence on the first line
+    if (i === 0 && trimmed === "---") {
+      block = { lang: "typescript", startLine: 1, closing: "---" };
+      continue;
+    }
+
+    // Only tags that end their line: the block's content starts below them
+    const tag = trimmed.match(/^<(script|style)\b([^>]*)>$/i);
+    if (!tag) {
+      continue;
+    }
+    const name = tag[1].toLowerCase();
+    const langAttr = tag[2].match(/\blang=["']?([\w-]+)/i)?.[1].toLowerCase();
+    const lang =
+      name === "script"
+        ? scriptLangs[langAttr ?? "js"]
+        : styleLangs[langAttr ?? "css"];
+    if (lang) {
+      block = { lang, startLine: i + 1, closing: `</${name}` };
+    }
+  }
+
+  return blocks;
+}
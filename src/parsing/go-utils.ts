@@ -0,0 +1,372 @@
+/**
+ * gofmt alignment rules for Go.
+ *
+ * gofmt lays out struct fields, const/var/type specs and composite literal
+ * elements as rows of tab-separated cells and aligns them with a tabwriter:
+ * each cell starts where the widest cell before it in its column ends. This
+ * module splits those rows into cells the way go/printer does, so aligning
+ * cell starts reproduces gofmt output.
+ */
+
+import { getScopeId } from "./ast-utils";
+import { TreeNode } from "./tree-sitter-types";
+
+/** Keys up to this size always align (go/printer's smallSize) */
+const SMALL_KEY_SIZE = 40;
+
+/** Key size ratio that breaks alignment (go/printer's r) */
+const KEY_SIZE_RATIO = 2.5;
+
+/**
+ * Start of a cell on a row.
+ * Empty cells have empty text and sit right after the previous cell: they
+ * hold no content, but still widen and connect their column.
+ */
+export interface GoCell {
+  line: number;
+  column: number;
+  text: string;
+  /** Column index, counted from the first cell after the row's name/key */
+  index: number;
+}
+
+/** Cells of one row and the context they align in */
+export interface GoRow {
+  cells: GoCell[];
+  /** Trailing comment laid out as the row's last cell */
+  comment: TreeNode | null;
+  /** Row kind; only rows of the same kind align */
+  parentType: string;
+  scopeId: string;
+}
+
+/**
+ * Gets the kind of a row. Type aliases sit in type blocks beside type specs.
+ */
+function getRowKind(row: TreeNode): string {
+  return row.type === "type_alias" ? "type_spec" : row.type;
+}
+
+/**
+ * Splits Go rows into gofmt cells.
+ * Caches per-block decisions, so use one instance per parse.
+ */
+export class GoLayout {
+  private literalSections = new Map<number, Map<number, number>>();
+  private typeColumnSpecs = new Map<number, Set<number>>();
+
+  /**
+   * Gets the cells of a field_declaration, const_spec, var_spec, type_spec,
+   * type_alias or keyed_element. Returns null for rows gofmt doesn't align.
+   */
+  getRow(row: TreeNode): GoRow | null {
+    const parent = row.parent;
+    if (!parent) {
+      return null;
+    }
+    // A lone row is printed with blanks instead of cell separators
+    // (literals decide this per section instead)
+    const kind = getRowKind(row);
+    if (
+      row.type !== "keyed_element" &&
+      parent.children.filter((c) => getRowKind(c) === kind).length < 2
+    ) {
+      return null;
+    }
+
+    const singleLine = row.startPosition.row === row.endPosition.row;
+    const comment = singleLine ? getTrailingComment(row) : null;
+    let scopeId = getScopeId(row);
+    let cells: Array<TreeNode | null>;
+
+    switch (row.type) {
+      case "field_declaration":
+        cells = this.getFieldCells(row);
+        break;
+      case "const_spec":
+      case "var_spec":
+        cells = this.getSpecCells(row, parent);
+        break;
+      case "type_spec":
+        cells = [row.childForFieldName("type")];
+        break;
+      case "type_alias":
+        cells = [row.children.find((c) => c.type === "=") ?? null];
+        break;
+      case "keyed_element": {
+        let sections = this.literalSections.get(parent.id);
+        if (!sections) {
+          sections = getLiteralSections(parent);
+          this.literalSections.set(parent.id, sections);
+        }
+        const section = sections.get(row.id);
+        if (section === undefined) {
+          return null;
+        }
+        scopeId = `${scopeId}_section${section}`;
+        cells = [row.childForFieldName("value")];
+        break;
+      }
+      default:
+        return null;
+    }
+
+    if (comment) {
+      // Empty cells pad the comment out to its column
+      const isSpec = row.type === "const_spec" || row.type === "var_spec";
+      const commentIndex = isSpec ? 2 : cells.length;
+      while (cells.length < commentIndex) {
+        cells.push(null);
+      }
+      cells.push(comment);
+    }
+
+    return {
+      cells: toCells(row, cells),
+      comment,
+      parentType: kind,
+      scopeId,
+    };
+  }
+
+  /**
+   * Struct field cells, after go/printer's fieldList:
+   *   Name Type `tag` // comment
+   *   Embedded `tag`  // comment
+   */
+  private getFieldCells(field: TreeNode): Array<TreeNode | null> {
+    const type = field.childForFieldName("type");
+    const tag = field.childForFieldName("tag");
+    if (!field.childForFieldName("name")) {
+      // The embedded type sits in the name column
+      return tag ? [tag] : [null];
+    }
+    return tag ? [type, tag] : [type];
+  }
+
+  /**
+   * Const/var spec cells, after go/printer's valueSpec:
+   *   Name Type = value // comment
+   * The type cell stays (empty) when keepTypeColumn says so.
+   */
+  private getSpecCells(
+    spec: TreeNode,
+    declaration: TreeNode
+  ): Array<TreeNode | null> {
+    let keep = this.typeColumnSpecs.get(declaration.id);
+    if (!keep) {
+      keep = getTypeColumnSpecs(declaration);
+      this.typeColumnSpecs.set(declaration.id, keep);
+    }
+
+    const cells: Array<TreeNode | null> = [];
+    const type = spec.childForFieldName("type");
+    if (type || keep.has(spec.id)) {
+      cells.push(type);
+    }
+    if (spec.childForFieldName("value")) {
+      cells.push(spec.children.find((c) => c.type === "=") ?? null);
+    }
+    return cells;
+  }
+}
+
+/**
+ * Converts cell nodes to cell starts, stopping at the first cell that
+ * doesn't start on the row's first line. Empty cells start one space after
+ * the previous cell (the row's name or key when they come first).
+ */
+function toCells(row: TreeNode, nodes: Array<TreeNode | null>): GoCell[] {
+  const line = row.startPosition.row;
+  const cells: GoCell[] = [];
+  const first = nodes.find((node) => node !== null);
+  let previousEnd = getLeadingCellEnd(row, first ?? null);
+
+  for (const [index, node] of nodes.entries()) {
+    if (!node) {
+      cells.push({ line, column: previousEnd + 1, text: "", index });
+      continue;
+    }
+    if (node.startPosition.row !== line) {
+      break;
+    }
+    const column = node.startPosition.column;
+    // Never place an empty cell past the cell that follows it
+    for (const cell of cells) {
+      if (cell.text === "") {
+        cell.column = Math.min(cell.column, column);
+      }
+    }
+    cells.push({ line, column, text: node.text.split("\n")[0], index });
+    // A cell runs to the next one, and only the trailing comment follows
+    // a row's last cell (`= value` ends where the row does)
+    previousEnd = Math.max(node.endPosition.column, row.endPosition.column);
+  }
+
+  // Empty cells only exist to separate the cells after them
+  while (cells.length > 0 && cells[cells.length - 1].text === "") {
+    cells.pop();
+  }
+  return cells;
+}
+
+/**
+ * Finds where a row's leading cell (its names, key or embedded type) ends:
+ * at the last child before the first cell, or the row's end without one.
+ */
+function getLeadingCellEnd(row: TreeNode, first: TreeNode | null): number {
+  const line = row.startPosition.row;
+  let end = row.startPosition.column;
+  for (const child of row.children) {
+    const start = child.startPosition;
+    if (
+      first &&
+      (start.row > first.startPosition.row ||
+        (start.row === line && start.column >= first.startPosition.column))
+    ) {
+      break;
+    }
+    if (start.row === line) {
+      end = child.endPosition.column;
+    }
+  }
+  return end;
+}
+
+/**
+ * Finds the comment on the same line after a row, if any.
+ */
+function getTrailingComment(row: TreeNode): TreeNode | null {
+  const siblings = row.parent?.children ?? [];
+  const line = row.endPosition.row;
+  const start = siblings.findIndex((s) => s.id === row.id) + 1;
+  for (const sibling of siblings.slice(start)) {
+    if (sibling.startPosition.row !== line) {
+      break;
+    }
+    if (sibling.type === "comment") {
+      return sibling;
+    }
+    if (sibling.type !== ",") {
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Computes alignment sections for the elements of a composite literal.
+ * Returns the section index of each aligned element, by element node ID;
+ * elements whose value gofmt doesn't align are absent.
+ *
+ * Mirrors go/printer's exprList: a key:value element gets a value column
+ * when it starts a line and fits on one line. A new section starts after
+ * a blank line, a multi-line element, several elements on one line, or a
+ * key whose size is far from the geometric mean of the keys before it.
+ */
+function getLiteralSections(literal: TreeNode): Map<number, number> {
+  const elements = literal.children.filter(
+    (c) => c.type === "keyed_element" || c.type === "literal_element"
+  );
+  const sections = new Map<number, number>();
+  if (elements.length < 2) {
+    return sections;
+  }
+
+  let section = 0;
+  let lnsum = 0;
+  let count = 0;
+  let size = 0;
+  let prevLine = literal.startPosition.row;
+  let prevBreak = -1;
+
+  elements.forEach((element, i) => {
+    const line = element.startPosition.row;
+    const isPair = element.type === "keyed_element";
+    const singleLine = line === element.endPosition.row;
+
+    const prevSize = size;
+    size = 0;
+    if (singleLine) {
+      size = isPair
+        ? (element.childForFieldName("key")?.text.length ?? 0)
+        : element.text.length;
+    }
+
+    let useFF = true;
+    if (prevSize > 0 && size > 0) {
+      if (
+        count === 0 ||
+        (prevSize <= SMALL_KEY_SIZE && size <= SMALL_KEY_SIZE)
+      ) {
+        useFF = false;
+      } else {
+        const geomean = Math.exp(lnsum / count);
+        const ratio = size / geomean;
+        useFF = KEY_SIZE_RATIO * ratio <= 1 || KEY_SIZE_RATIO <= ratio;
+      }
+    }
+
+    const lineBreaks = line - prevLine;
+    if (lineBreaks > 0) {
+      const newSection = i === 0 || useFF || prevBreak + 1 < i;
+      if (i > 0 && (newSection || lineBreaks > 1)) {
+        section++;
+        lnsum = 0;
+        count = 0;
+      }
+      prevBreak = i;
+
+      if (isPair && size > 0) {
+        sections.set(element.id, section);
+      }
+    }
+
+    if (size > 0) {
+      lnsum += Math.log(size);
+      count++;
+    }
+    prevLine = element.endPosition.row;
+  });
+
+  return sections;
+}
+
+/**
+ * Finds the const/var specs that keep an (possibly empty) type column.
+ * Returns their node IDs.
+ *
+ * Mirrors go/printer's keepTypeColumn: in a run of consecutive specs with
+ * values, if any spec has a type, every spec in the run keeps the column
+ * so their `=` signs align.
+ */
+function getTypeColumnSpecs(declaration: TreeNode): Set<number> {
+  const specs = declaration.children.filter(
+    (c) => c.type === "const_spec" || c.type === "var_spec"
+  );
+  const keep = new Set<number>();
+
+  let run: TreeNode[] = [];
+  let runHasType = false;
+  const flush = () => {
+    if (runHasType) {
+      for (const spec of run) {
+        keep.add(spec.id);
+      }
+    }
+    run = [];
+    runHasType = false;
+  };
+
+  for (const spec of specs) {
+    if (!spec.childForFieldName("value")) {
+      flush();
+      continue;
+    }
+    run.push(spec);
+    runHasType ||= spec.childForFieldName("type") !== null;
+  }
+  flush();
+
+  return keep;
+}
@@ -0,0 +1,203 @@
+/**
+ * HCL (Terraform) line scanner (no WASM grammar available).
+ *
+ * Aligns attribute `=` per block and trailing comments, like
+ * `terraform fmt`: a line whose value opens a multi-line expression
+ * (`tags = {`) doesn't align, and heredoc bodies are skipped.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * HCL scanner state carried from one line to the next.
+ */
+interface HclScanState {
+  /** Closing marker of the open heredoc, if any */
+  heredoc: string | null;
+  /** Whether a block comment is open */
+  blockComment: boolean;
+  /** IDs of the open brackets, innermost last */
+  brackets: number[];
+  /** ID for the next bracket opened */
+  nextBracketId: number;
+}
+
+/**
+ * Extracts HCL tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ */
+export function extractHclTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: HclScanState = {
+    heredoc: null,
+    blockComment: false,
+    brackets: [],
+    nextBracketId: 0,
+  };
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    if (state.heredoc !== null) {
+      if (lineText.trim() === state.heredoc) {
+        state.heredoc = null;
+      }
+      return;
+    }
+
+    // Attributes align with the other attributes of their block
+    const block = state.brackets[state.brackets.length - 1] ?? "root";
+    const { equals, comment } = scanHclLine(lineText, state);
+    const indent = getIndentLevel(lineText);
+
+    const lineTokens: AlignmentToken[] = [];
+    if (equals !== null) {
+      lineTokens.push({
+        line,
+        column: equals,
+        text: "=",
+        type: "=",
+        indent,
+        parentType: "attribute",
+        tokenIndex: 0,
+        scopeId: `${scopePrefix}_block_${block}`,
+        operatorCountOnLine: 0,
+      });
+    }
+    if (comment !== null && lineText.substring(0, comment).trim() !== "") {
+      lineTokens.push({
+        line,
+        column: comment,
+        text: lineText[comment],
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Scans one HCL line, updating the state for the next line.
+ *
+ * Returns the column of the attribute `=` and of the comment, if any.
+ * Like hclwrite, the `=` is the line's first one outside strings, and
+ * only counts when the brackets opened after it close on the same line.
+ */
+function scanHclLine(
+  line: string,
+  state: HclScanState
+): { equals: number | null; comment: number | null } {
+  let equals: number | null = null;
+  let equalsDepth = 0;
+  // Lowest bracket depth reached after the `=`
+  let minDepth = 0;
+  let comment: number | null = null;
+  let heredoc: string | null = null;
+  // Open strings and template interpolations, innermost last
+  // (a number counts the braces open inside an interpolation)
+  const nesting: Array<"string" | number> = [];
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const top = nesting[nesting.length - 1];
+
+    if (state.blockComment) {
+      if (line.startsWith("*/", i)) {
+        state.blockComment = false;
+        i++;
+      }
+      continue;
+    }
+
+    if (top === "string") {
+      if (char === "\\") {
+        i++; // Skip the escaped character
+      } else if ((char === "$" || char === "%") && line[i + 1] === "{") {
+        nesting.push(0);
+        i++;
+      } else if (char === '"') {
+        nesting.pop();
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      nesting.push("string");
+      continue;
+    }
+
+    if (top !== undefined) {
+      // Inside an interpolation: only track where it ends
+      if (char === "{") {
+        nesting[nesting.length - 1] = top + 1;
+      } else if (char === "}") {
+        if (top === 0) {
+          nesting.pop();
+        } else {
+          nesting[nesting.length - 1] = top - 1;
+        }
+      }
+      continue;
+    }
+
+    if (char === "#" || line.startsWith("//", i)) {
+      comment = i;
+      break;
+    }
+    if (line.startsWith("/*", i)) {
+      comment ??= i;
+      state.blockComment = true;
+      i++;
+      continue;
+    }
+
+    const heredocMatch = line.substring(i).match(/^<<-?([A-Za-z_][\w-]*)/);
+    if (heredocMatch) {
+      heredoc = heredocMatch[1];
+      i += heredocMatch[0].length - 1;
+      continue;
+    }
+
+    if ("{[(".includes(char)) {
+      state.brackets.push(state.nextBracketId++);
+    } else if ("}])".includes(char)) {
+      state.brackets.pop();
+      minDepth = Math.min(minDepth, state.brackets.length);
+    } else if (
+      char === "=" &&
+      equals === null &&
+      // Not part of `==`, `!=`, `<=`, `>=` or `=>`
+      !/[=!<>]=|=[=>]/.test(line.substring(i - 1, i + 2)) &&
+      line.substring(0, i).trim() !== ""
+    ) {
+      equals = i;
+      equalsDepth = state.brackets.length;
+      minDepth = equalsDepth;
+    }
+  }
+
+  if (
+    equals !== null &&
+    (state.brackets.length !== equalsDepth || minDepth < equalsDepth)
+  ) {
+    // The value opens or closes a bracket that spans lines
+    equals = null;
+  }
+  state.heredoc = heredoc;
+  return { equals, comment };
+}
@@ -0,0 +1,150 @@
+/**
+ * JSON, JSONC and JSON5 line scanner.
+ *
+ * Aligns the `:` of object members, each object being its own scope,
+ * and trailing comments.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * JSON scanner state carried from one line to the next.
+ */
+interface JsonScanState {
+  /** Quote of the open string (continued with a JSON5 backslash), if any */
+  quote: string | null;
+  /** Whether a block comment is open */
+  blockComment: boolean;
+  /** Open brackets, innermost last; an object's ID is its scope */
+  brackets: Array<{ id: number; object: boolean }>;
+  /** ID for the next bracket opened */
+  nextBracketId: number;
+}
+
+/**
+ * Extracts JSON tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ *
+ * The scanner is lenient enough for all three dialects: comments,
+ * single-quoted strings, unquoted keys and trailing commas are accepted
+ * everywhere.
+ */
+export function extractJsonTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: JsonScanState = {
+    quote: null,
+    blockComment: false,
+    brackets: [],
+    nextBracketId: 0,
+  };
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const indent = getIndentLevel(lineText);
+    const { colons, comment } = scanJsonLine(lineText, state);
+
+    const lineTokens: AlignmentToken[] = colons.map((colon, tokenIndex) => ({
+      line,
+      column: colon.column,
+      text: ":",
+      type: ":",
+      indent,
+      parentType: "pair",
+      tokenIndex,
+      scopeId: `${scopePrefix}_object_${colon.objectId}`,
+      operatorCountOnLine: 0,
+    }));
+    if (comment !== null && lineText.substring(0, comment).trim() !== "") {
+      lineTokens.push({
+        line,
+        column: comment,
+        text: lineText.substring(comment, comment + 2),
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Scans one JSON line, updating the state for the next line.
+ * Returns the member colons (colons outside strings whose innermost
+ * bracket is an object) and the column of the trailing comment: a `//`
+ * comment, or a block comment closing at the end of the line.
+ */
+function scanJsonLine(
+  line: string,
+  state: JsonScanState
+): {
+  colons: Array<{ column: number; objectId: number }>;
+  comment: number | null;
+} {
+  const colons: Array<{ column: number; objectId: number }> = [];
+  let blockStart: number | null = null;
+  let comment: number | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (state.blockComment) {
+      if (line.startsWith("*/", i)) {
+        state.blockComment = false;
+        if (blockStart !== null && line.substring(i + 2).trim() === "") {
+          comment = blockStart;
+        }
+        i++;
+      }
+      continue;
+    }
+
+    if (state.quote) {
+      if (char === "\\") {
+        i++; // Skip the escaped character
+      } else if (char === state.quote) {
+        state.quote = null;
+      }
+      continue;
+    }
+
+    const top = state.brackets[state.brackets.length - 1];
+    if (char === '"' || char === "'") {
+      state.quote = char;
+    } else if (line.startsWith("//", i)) {
+      return { colons, comment: i };
+    } else if (line.startsWith("/*", i)) {
+      state.blockComment = true;
+      blockStart = i;
+      i++;
+    } else if (char === "{" || char === "[") {
+      const id = state.nextBracketId++;
+      state.brackets.push({ id, object: char === "{" });
+    } else if (char === "}" || char === "]") {
+      state.brackets.pop();
+    } else if (char === ":" && top?.object) {
+      colons.push({ column: i, objectId: top.id });
+    }
+  }
+
+  // Only a JSON5 backslash continues a string onto the next line
+  if (state.quote && !/\\\r?$/.test(line)) {
+    state.quote = null;
+  }
+
+  return { colons, comment };
+}
@@ -0,0 +1,190 @@
+/**
+ * Line scanner for dotenv, INI and .properties files.
+ *
+ * Aligns the `=` (or .properties `:`) of `KEY=value` lines and trailing
+ * comments; `[section]` headers start a new scope. Multi-line dotenv
+ * values and .properties continuation lines hold no keys.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/** Line-based key/value formats sharing one scanner */
+export type KeyValueDialect = "dotenv" | "ini" | "properties";
+
+/** A .properties line ending in an odd number of backslashes continues */
+const PROPERTIES_CONTINUATION = /(^|[^\\])(\\\\)*\\$/;
+
+/** Key/value separator and trailing comment found on one line */
+interface KeyValueLine {
+  separator: number | null;
+  comment: number | null;
+  /** Quote left open at the end of the line (multi-line dotenv value) */
+  openQuote: string | null;
+}
+
+/**
+ * Extracts key/value tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ */
+export function extractKeyValueTokens(
+  lines: string[],
+  lineOffset: number,
+  dialect: KeyValueDialect,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const commentMarkers = dialect === "properties" ? "#!" : "#;";
+  let section = 0;
+  // Open quote of a multi-line dotenv value
+  let openQuote: string | null = null;
+  // Whether the previous .properties line ended with a backslash
+  let continued = false;
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const trimmed = lineText.trim();
+
+    if (openQuote) {
+      if (findClosingQuote(lineText, 0, openQuote) !== -1) {
+        openQuote = null;
+      }
+      return;
+    }
+    if (continued) {
+      continued = PROPERTIES_CONTINUATION.test(lineText);
+      return;
+    }
+    if (trimmed === "" || commentMarkers.includes(trimmed[0])) {
+      return;
+    }
+    if (trimmed.startsWith("[")) {
+      // Section header: pairs after it never align with pairs before it
+      section++;
+      return;
+    }
+
+    const scanned = scanKeyValueLine(lineText, dialect);
+    openQuote = scanned.openQuote;
+    continued =
+      dialect === "properties" && PROPERTIES_CONTINUATION.test(lineText);
+
+    const indent = getIndentLevel(lineText);
+    const lineTokens: AlignmentToken[] = [];
+    if (scanned.separator !== null) {
+      const text = lineText[scanned.separator];
+      lineTokens.push({
+        line,
+        column: scanned.separator,
+        text,
+        type: text === ":" ? ":" : "=",
+        indent,
+        parentType: "pair",
+        tokenIndex: 0,
+        scopeId: `${scopePrefix}_section_${section}`,
+        operatorCountOnLine: 0,
+      });
+    }
+    if (scanned.comment !== null) {
+      lineTokens.push({
+        line,
+        column: scanned.comment,
+        text: lineText[scanned.comment],
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Finds the separator and trailing comment of a `KEY=value` line.
+ *
+ * dotenv and INI values may be quoted, and a comment starts at a `#`
+ * (or INI `;`) after whitespace outside the quotes. .properties values
+ * run to the end of the line, and backslashes escape `=` and `:` in keys.
+ */
+function scanKeyValueLine(
+  line: string,
+  dialect: KeyValueDialect
+): KeyValueLine {
+  const result: KeyValueLine = {
+    separator: null,
+    comment: null,
+    openQuote: null,
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\") {
+      i++; // Skip the escaped character
+    } else if (char === "=" || (dialect === "properties" && char === ":")) {
+      result.separator = i;
+      break;
+    }
+  }
+  if (
+    result.separator === null ||
+    line.substring(0, result.separator).trim() === ""
+  ) {
+    return { separator: null, comment: null, openQuote: null };
+  }
+  if (dialect === "properties") {
+    return result;
+  }
+
+  let i = result.separator + 1;
+  while (i < line.length && /\s/.test(line[i])) {
+    i++;
+  }
+  const quote = line[i];
+  if (
+    quote === '"' ||
+    quote === "'" ||
+    (dialect === "dotenv" && quote === "`")
+  ) {
+    const closing = findClosingQuote(line, i + 1, quote);
+    if (closing === -1) {
+      // Only dotenv values continue on the next lines
+      result.openQuote = dialect === "dotenv" ? quote : null;
+      return result;
+    }
+    i = closing + 1;
+  }
+
+  const markers = dialect === "ini" ? "#;" : "#";
+  for (; i < line.length; i++) {
+    if (markers.includes(line[i]) && /\s/.test(line[i - 1])) {
+      result.comment = i;
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the closing quote of a quoted value, starting at column start.
+ * Backslashes escape characters in double-quoted values.
+ * Returns -1 when the quote doesn't close on this line.
+ */
+function findClosingQuote(line: string, start: number, quote: string): number {
+  for (let i = start; i < line.length; i++) {
+    if (line[i] === "\\" && quote === '"') {
+      i++; // Skip the escaped character
+    } else if (line[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
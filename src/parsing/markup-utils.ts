@@ -0,0 +1,120 @@
+/**
+ * HTML/XML line scanner (no WASM grammars available).
+ *
+ * Aligns the `=` of attributes within one tag, so a tag written one
+ * attribute per line lines up; attributes of different tags never align.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * HTML/XML scanner state carried from one line to the next.
+ */
+interface MarkupScanState {
+  /** ID of the open tag, or null between tags */
+  tag: number | null;
+  /** Name of the open tag, lowercased (empty for closing tags) */
+  tagName: string;
+  /** ID for the next tag opened */
+  nextTagId: number;
+  /** Open attribute value quote, if any */
+  quote: string | null;
+  /** Text that ends the comment, CDATA or raw text being skipped */
+  skipUntil: string | null;
+}
+
+/** HTML elements whose content is raw text, not markup */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea"]);
+
+/**
+ * Extracts HTML/XML attribute tokens from lines, the first being
+ * document line lineOffset. Scope IDs start with scopePrefix.
+ * Comments, CDATA and the content of `<script>`/`<style>` are skipped.
+ */
+export function extractMarkupTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: MarkupScanState = {
+    tag: null,
+    tagName: "",
+    nextTagId: 0,
+    quote: null,
+    skipUntil: null,
+  };
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const indent = getIndentLevel(lineText);
+    const lineTokens: AlignmentToken[] = [];
+
+    for (let j = 0; j < lineText.length; j++) {
+      const char = lineText[j];
+
+      if (state.skipUntil !== null) {
+        if (lineText.toLowerCase().startsWith(state.skipUntil, j)) {
+          if (state.skipUntil.startsWith("</")) {
+            // Raw text ends where its closing tag opens
+            state.tag = state.nextTagId++;
+            state.tagName = "";
+          }
+          j += state.skipUntil.length - 1;
+          state.skipUntil = null;
+        }
+        continue;
+      }
+
+      if (state.tag === null) {
+        if (lineText.startsWith("<!--", j)) {
+          state.skipUntil = "-->";
+          j += 3;
+        } else if (lineText.startsWith("<![CDATA[", j)) {
+          state.skipUntil = "]]>";
+          j += 8;
+        } else if (char === "<" && /[\w?!/]/.test(lineText[j + 1] ?? "")) {
+          // Closing tags get an empty name
+          const name = lineText.substring(j).match(/^<([\w:.-]*)/)?.[1];
+          state.tag = state.nextTagId++;
+          state.tagName = name?.toLowerCase() ?? "";
+        }
+        continue;
+      }
+
+      if (state.quote !== null) {
+        if (char === state.quote) {
+          state.quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        state.quote = char;
+      } else if (char === "=") {
+        lineTokens.push({
+          line,
+          column: j,
+          text: "=",
+          type: "=",
+          indent,
+          parentType: "tag_attribute",
+          tokenIndex: lineTokens.length,
+          scopeId: `${scopePrefix}_tag_${state.tag}`,
+          operatorCountOnLine: 0,
+        });
+      } else if (char === ">") {
+        const selfClosing = lineText[j - 1] === "/";
+        if (RAW_TEXT_ELEMENTS.has(state.tagName) && !selfClosing) {
+          state.skipUntil = `</${state.tagName}`;
+        }
+        state.tag = null;
+      }
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
@@ -1,7 +1,9 @@
 /**
  * Tree-sitter queries for extracting alignable operators.
  *
- * Each query captures the operator token with @op.
+ * Each query captures the operator token with @op. Go captures whole rows
+ * with @row instead, which are split into gofmt cells (see go-utils).
+ * @cell captures a node that starts a column, padded before like `=`.
  */
 
 export const QUERIES: Record<string, string> = {
@@ -85,6 +87,10 @@ export const QUERIES: Record<string, string> = {
     (binary_expression
       operator: "||" @op)
 
+    ; JSX attributes: <button type="submit">
+    (jsx_attribute
+      "=" @op)
+
     ; Trailing comments: // comment
     (comment) @op
 
@@ -139,6 +145,79 @@ export const QUERIES: Record<string, string> = {
       (property_name)
       ":" @op)
   `,
+
+  go: `
+    ; Struct fields: Name Type \`tag\`
+    (field_declaration) @row
+
+    ; Const/var specs: Name Type = value
+    (const_spec) @row
+    (var_spec) @row
+
+    ; Type specs: Name Type, Name = Type
+    (type_spec) @row
+    (type_alias) @row
+
+    ; Composite literal elements: Key: value
+    (keyed_element) @row
+
+    ; Trailing comments: // comment
+    (comment) @op
+  `,
+
+  rust: `
+    ; Let bindings: let x = 1;
+    (let_declaration
+      pattern: (_)
+      "=" @op
+      value: (_))
+
+    ; Struct fields: name: Type
+    (field_declaration
+      name: (_)
+      ":" @op
+      type: (_))
+
+    ; Struct expression fields: Config { name: value }
+    (field_initializer
+      field: (_)
+      ":" @op
+      value: (_))
+
+    ; Match arms: pattern => value
+    (match_arm
+      pattern: (_)
+      "=>" @op
+      value: (_))
+
+    ; Trailing comments: // comment
+    (line_comment) @op
+  `,
+
+  // C is parsed with the C++ grammar
+  cpp: `
+    ; Designated initializers: .field = value, [0] = value
+    (initializer_pair
+      "=" @op)
+
+    ; Enum members: RED = 1
+    (enumerator
+      name: (_)
+      "=" @op)
+
+    ; Struct members: the first declarator is a column after the type
+    (field_declaration
+      type: (_)
+      .
+      declarator: (_) @cell)
+
+    ; Macro tables: #define NAME value
+    (preproc_def
+      value: (preproc_arg) @cell)
+
+    ; Trailing comments: // comment
+    (comment) @op
+  `,
 };
 
 /**
@@ -149,4 +228,7 @@ export const WASM_FILES: Record<string, string> = {
   tsx: "tree-sitter-tsx.wasm",
   python: "tree-sitter-python.wasm",
   css: "tree-sitter-css.wasm",
+  go: "tree-sitter-go.wasm",
+  rust: "tree-sitter-rust.wasm",
+  cpp: "tree-sitter-cpp.wasm",
 };
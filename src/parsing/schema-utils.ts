@@ -0,0 +1,285 @@
+/**
+ * Line scanners for schema languages: Protobuf and GraphQL (no WASM
+ * grammars available).
+ *
+ * Protobuf message fields align as columns of type, name and tag number;
+ * GraphQL aligns the `:` of fields and multi-line argument lists.
+ */
+
+import { AlignmentToken, OperatorType } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * Schema scanner state carried from one line to the next.
+ */
+interface SchemaScanState {
+  /** Closing delimiter of the open block comment or block string, if any */
+  open: string | null;
+  /** Open brackets, innermost last */
+  brackets: Array<{ id: number; kind: "definition" | "arguments" | "other" }>;
+  /** ID for the next bracket opened */
+  nextBracketId: number;
+}
+
+/** Protobuf statements that look like `Type name = value` but aren't fields */
+const PROTO_KEYWORDS = new Set(["option", "syntax", "edition", "package"]);
+
+/**
+ * Extracts Protobuf tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ *
+ * Message fields are rows of cells, so types, names and `=` tag numbers
+ * line up as columns:
+ *   repeated string emails = 3;
+ *   int32           id     = 4;
+ * Enum values and `option` lines align their `=`.
+ */
+export function extractProtoTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: SchemaScanState = {
+    open: null,
+    brackets: [],
+    nextBracketId: 0,
+  };
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const block = state.brackets[state.brackets.length - 1]?.id ?? "root";
+    const { code, comment } = maskSchemaLine(lineText, state, "//");
+    for (const char of code) {
+      if (char === "{") {
+        state.brackets.push({ id: state.nextBracketId++, kind: "other" });
+      } else if (char === "}") {
+        state.brackets.pop();
+      }
+    }
+
+    const indent = getIndentLevel(lineText);
+    const scopeId = `${scopePrefix}_block_${block}`;
+    const lineTokens: AlignmentToken[] = [];
+    const token = (
+      column: number,
+      text: string,
+      type: OperatorType,
+      parentType: string
+    ) =>
+      lineTokens.push({
+        line,
+        column,
+        text,
+        type,
+        indent,
+        parentType,
+        tokenIndex: lineTokens.length,
+        scopeId,
+        operatorCountOnLine: 0,
+      });
+
+    const field = code.match(
+      /^\s*((?:(?:repeated|optional|required)\s+)?(?:map\s*<[^>]*>|\.?[\w.]+))(\s+)(\w+)\s*=\s*\d/
+    );
+    const enumValue = code.match(/^\s*\w+\s*=\s*-?\d/);
+    const option = code.match(/^\s*option\s+[\w.()]+\s*=/);
+
+    if (field && !PROTO_KEYWORDS.has(field[1])) {
+      const name = code.indexOf(field[1]) + field[1].length + field[2].length;
+      token(name, field[3], "cell", "field");
+      token(code.indexOf("=", name), "=", "cell", "field");
+    } else if (enumValue) {
+      token(code.indexOf("="), "=", "=", "enum_value");
+    } else if (option) {
+      token(code.indexOf("="), "=", "=", "option");
+    }
+
+    if (comment !== null) {
+      lineTokens.push({
+        line,
+        column: comment,
+        text: "//",
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const t of lineTokens) {
+      t.operatorCountOnLine = lineTokens.length;
+      tokens.push(t);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Extracts GraphQL tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ *
+ * Aligns the `:` of fields in type, input, interface and schema
+ * definitions, and of arguments and variables in argument lists that
+ * span lines. Selection sets in queries are left alone.
+ */
+export function extractGraphqlTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: SchemaScanState = {
+    open: null,
+    brackets: [],
+    nextBracketId: 0,
+  };
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const bracket = state.brackets[state.brackets.length - 1];
+    const { code, comment } = maskSchemaLine(lineText, state, "#");
+
+    // The field's `:` is the line's first, before any bracket opens: fields
+    // with inline arguments, `posts(first: Int): [Post]`, are too wide to
+    // align with the plain fields around them
+    let colon: number | null = null;
+    let depth = 0;
+    let opened = false;
+    let closesBracket = false;
+    for (let j = 0; j < code.length; j++) {
+      const char = code[j];
+      if (char === "{" || char === "(" || char === "[") {
+        let kind: "definition" | "arguments" | "other" = "other";
+        if (char === "(") {
+          kind = "arguments";
+        } else if (
+          char === "{" &&
+          /^\s*(extend\s+)?(type|input|interface|schema)\b/.test(code)
+        ) {
+          kind = "definition";
+        }
+        state.brackets.push({ id: state.nextBracketId++, kind });
+        depth++;
+        opened = true;
+      } else if (char === "}" || char === ")" || char === "]") {
+        state.brackets.pop();
+        depth--;
+      } else if (char === ":" && !opened && colon === null) {
+        colon = j;
+      }
+      if (depth < 0) {
+        // Closes the bracket the line started in, e.g. `): Type`
+        closesBracket = true;
+      }
+    }
+    if (closesBracket) {
+      colon = null;
+    }
+
+    const indent = getIndentLevel(lineText);
+    const lineTokens: AlignmentToken[] = [];
+    if (colon !== null && bracket && bracket.kind !== "other") {
+      lineTokens.push({
+        line,
+        column: colon,
+        text: ":",
+        type: ":",
+        indent,
+        parentType:
+          bracket.kind === "definition" ? "field_definition" : "arguments",
+        tokenIndex: 0,
+        scopeId: `${scopePrefix}_${bracket.kind}_${bracket.id}`,
+        operatorCountOnLine: 0,
+      });
+    }
+    if (comment !== null) {
+      lineTokens.push({
+        line,
+        column: comment,
+        text: "#",
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Blanks out strings and comments in a Protobuf or GraphQL line,
+ * keeping columns, and finds its trailing comment.
+ *
+ * Protobuf (`//` comments) has `/* *\/` block comments and GraphQL
+ * (`#` comments) has `"""` block strings; both can span lines, so the
+ * open one is kept in the state.
+ */
+function maskSchemaLine(
+  line: string,
+  state: SchemaScanState,
+  lineComment: "//" | "#"
+): { code: string; comment: number | null } {
+  let code = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (state.open) {
+      if (line.startsWith(state.open, i)) {
+        code += " ".repeat(state.open.length);
+        i += state.open.length - 1;
+        state.open = null;
+      } else {
+        code += " ";
+      }
+      continue;
+    }
+
+    if (quote) {
+      if (char === "\\") {
+        code += " ";
+        i++; // Skip the escaped character
+      } else if (char === quote) {
+        quote = null;
+      }
+      code += " ";
+      continue;
+    }
+
+    if (line.startsWith(lineComment, i)) {
+      const hasCode = code.trim() !== "";
+      return {
+        code: code.padEnd(line.length),
+        comment: hasCode ? i : null,
+      };
+    }
+
+    const blockStart = lineComment === "//" ? "/*" : '"""';
+    if (line.startsWith(blockStart, i)) {
+      state.open = blockStart === "/*" ? "*/" : '"""';
+      code += "  ";
+      i++;
+    } else if (char === '"' || (lineComment === "//" && char === "'")) {
+      quote = char;
+      code += " ";
+    } else {
+      code += char;
+    }
+  }
+
+  return { code, comment: null };
+}
@@ -0,0 +1,586 @@
+/**
+ * SQL regex-based parser (no WASM grammar available).
+ *
+ * Handles CREATE TABLE columns, INSERT VALUES tuples, CREATE INDEX,
+ * SELECT ... AS aliases, UPDATE ... SET assignments and WHERE AND/OR chains.
+ *
+ * SQL alignment is statement-scoped: each statement resets alignment context.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * Extracts SQL tokens from the lines of a document.
+ */
+export function extractSqlTokens(lines: string[]): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+
+  // Parse statement by statement
+  // Only handles "tabular" patterns: CREATE TABLE, INSERT VALUES, CREATE INDEX
+  let statementId = 0;
+  let inCreateTable = false;
+  let inInsertValues = false;
+  let inCreateIndex = false;
+  let createTableStartLine = -1;
+  let createIndexStartLine = -1;
+  let createIndexLines: Array<{ lineNum: number; lineText: string }> = [];
+  // Clause of the current SELECT/UPDATE/DELETE whose lines are aligned
+  let clause: "select" | "set" | "where" | null = null;
+  let clauseIndent = 0;
+
+  for (let lineNum = 0; lineNum < lines.length; lineNum++) {
+    const lineText = lines[lineNum];
+    const trimmed = lineText.trim();
+    const upperTrimmed = trimmed.toUpperCase();
+
+    // Skip comments and empty lines
+    if (trimmed.startsWith("--") || trimmed === "") {
+      // If we were collecting CREATE INDEX lines, process them now
+      if (inCreateIndex && createIndexLines.length > 0) {
+        parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
+        createIndexLines = [];
+        inCreateIndex = false;
+      }
+      continue;
+    }
+
+    // Detect CREATE TABLE
+    if (upperTrimmed.startsWith("CREATE TABLE")) {
+      // Flush any pending CREATE INDEX
+      if (inCreateIndex && createIndexLines.length > 0) {
+        parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
+        createIndexLines = [];
+      }
+      statementId++;
+      inCreateTable = true;
+      inInsertValues = false;
+      inCreateIndex = false;
+      createTableStartLine = lineNum;
+      continue;
+    }
+
+    // Detect CREATE INDEX - collect consecutive lines
+    if (upperTrimmed.startsWith("CREATE INDEX")) {
+      if (!inCreateIndex) {
+        // Flush any pending state
+        statementId++;
+        inCreateTable = false;
+        inInsertValues = false;
+        inCreateIndex = true;
+        createIndexStartLine = lineNum;
+        createIndexLines = [];
+      }
+      createIndexLines.push({ lineNum, lineText });
+      continue;
+    } else if (inCreateIndex && createIndexLines.length > 0) {
+      // No longer on CREATE INDEX lines, process collected lines
+      parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
+      createIndexLines = [];
+      inCreateIndex = false;
+    }
+
+    // Detect SELECT / UPDATE / DELETE statements
+    if (/^(SELECT|UPDATE|DELETE)\b/.test(upperTrimmed)) {
+      statementId++;
+      inCreateTable = false;
+      inInsertValues = false;
+      clause = upperTrimmed.startsWith("SELECT") ? "select" : null;
+      clauseIndent = getIndentLevel(lineText);
+    }
+
+    // Clause keywords at the start of a line switch the aligned clause;
+    // SET may also end the UPDATE line, with the assignments below it
+    if (
+      /^SET\b/.test(upperTrimmed) ||
+      (/^UPDATE\b/.test(upperTrimmed) && /\bSET\b/i.test(maskSqlLine(lineText)))
+    ) {
+      clause = "set";
+    } else if (/^WHERE\b/.test(upperTrimmed)) {
+      clause = "where";
+    } else if (
+      /^(FROM|GROUP|ORDER|HAVING|LIMIT|OFFSET|RETURNING|UNION|JOIN)\b/.test(
+        upperTrimmed
+      )
+    ) {
+      clause = null;
+    }
+
+    if (clause === "select") {
+      parseSqlSelectAlias(lineText, lineNum, tokens, statementId, clauseIndent);
+    } else if (clause === "set") {
+      parseSqlSetAssignment(
+        lineText,
+        lineNum,
+        tokens,
+        statementId,
+        clauseIndent
+      );
+    } else if (clause === "where") {
+      parseSqlWhereCondition(
+        lineText,
+        lineNum,
+        tokens,
+        statementId,
+        clauseIndent
+      );
+    }
+
+    // Detect INSERT INTO
+    if (
+      upperTrimmed.startsWith("INSERT INTO") ||
+      upperTrimmed.startsWith("INSERT ")
+    ) {
+      statementId++;
+      inCreateTable = false;
+      inInsertValues = upperTrimmed.includes("VALUES");
+      continue;
+    }
+
+    // Detect VALUES
+    if (
+      upperTrimmed.startsWith("VALUES") ||
+      upperTrimmed.includes(") VALUES")
+    ) {
+      inInsertValues = true;
+      continue;
+    }
+
+    // Process INSERT VALUES tuples (before checking for ;)
+    if (inInsertValues && trimmed.startsWith("(")) {
+      parseSqlValuesTuple(lineText, lineNum, tokens, statementId);
+    }
+
+    // End of statement
+    if (trimmed.endsWith(";")) {
+      if (inCreateTable) {
+        parseSqlCreateTableColumns(
+          lines,
+          createTableStartLine,
+          lineNum,
+          tokens,
+          statementId
+        );
+      }
+      inCreateTable = false;
+      inInsertValues = false;
+      clause = null;
+      continue;
+    }
+  }
+
+  // Flush any remaining CREATE INDEX lines
+  if (inCreateIndex && createIndexLines.length > 0) {
+    parseSqlCreateIndexGroup(createIndexLines, tokens, statementId);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a group of consecutive CREATE INDEX statements.
+ */
+function parseSqlCreateIndexGroup(
+  indexLines: Array<{ lineNum: number; lineText: string }>,
+  tokens: AlignmentToken[],
+  statementId: number
+): void {
+  if (indexLines.length < 2) {
+    // Single CREATE INDEX line - still emit tokens for potential future grouping
+    if (indexLines.length === 1) {
+      parseSqlCreateIndex(
+        indexLines[0].lineText,
+        indexLines[0].lineNum,
+        tokens,
+        statementId
+      );
+    }
+    return;
+  }
+
+  // Multiple CREATE INDEX lines - they share the same statementId for grouping
+  for (const { lineText, lineNum } of indexLines) {
+    parseSqlCreateIndex(lineText, lineNum, tokens, statementId);
+  }
+}
+
+/**
+ * Parse CREATE TABLE column definitions.
+ * Aligns: column_name TYPE CONSTRAINTS
+ */
+function parseSqlCreateTableColumns(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  tokens: AlignmentToken[],
+  statementId: number
+): void {
+  // Columns are typically on lines between CREATE TABLE ( and );
+  // Each column line: name TYPE [CONSTRAINTS]
+  const columnLines: Array<{
+    lineNum: number;
+    parts: string[];
+    indent: number;
+  }> = [];
+
+  for (let lineNum = startLine + 1; lineNum < endLine; lineNum++) {
+    const lineText = lines[lineNum];
+    const trimmed = lineText.trim();
+    const indent = getIndentLevel(lineText);
+
+    // Skip empty lines, closing paren, constraints like PRIMARY KEY, etc.
+    if (
+      trimmed === "" ||
+      trimmed.startsWith(")") ||
+      trimmed.toUpperCase().startsWith("PRIMARY KEY") ||
+      trimmed.toUpperCase().startsWith("FOREIGN KEY") ||
+      trimmed.toUpperCase().startsWith("UNIQUE") ||
+      trimmed.toUpperCase().startsWith("CHECK") ||
+      trimmed.toUpperCase().startsWith("CONSTRAINT")
+    ) {
+      continue;
+    }
+
+    // Parse column definition: name TYPE [CONSTRAINTS...]
+    // Remove trailing comma
+    const cleanLine = trimmed.replace(/,\s*$/, "");
+    const parts = cleanLine.split(/\s+/);
+
+    if (parts.length >= 2) {
+      columnLines.push({ lineNum, parts, indent });
+    }
+  }
+
+  if (columnLines.length < 2) return; // Need at least 2 lines to align
+
+  // Use array_ prefix for scopeId to enable cross-line alignment in Grouper
+  const scopeId = `array_sql_create_${statementId}`;
+
+  // Emit tokens for column name and type alignment
+  for (const col of columnLines) {
+    const lineText = lines[col.lineNum];
+    const colNameStart = lineText.indexOf(col.parts[0]);
+
+    // Token for column name (to pad after it so types align)
+    tokens.push({
+      line: col.lineNum,
+      column: colNameStart,
+      text: col.parts[0],
+      type: ":", // Using : type for padAfter behavior
+      indent: col.indent,
+      parentType: "sql_column_def",
+      tokenIndex: 0,
+      scopeId,
+      operatorCountOnLine: 2,
+    });
+
+    // Token for type (to pad after it so constraints align)
+    if (col.parts.length >= 2) {
+      const typeStart = lineText.indexOf(
+        col.parts[1],
+        colNameStart + col.parts[0].length
+      );
+      if (typeStart >= 0) {
+        tokens.push({
+          line: col.lineNum,
+          column: typeStart,
+          text: col.parts[1],
+          type: ":", // Using : type for padAfter behavior
+          indent: col.indent,
+          parentType: "sql_column_def",
+          tokenIndex: 1,
+          scopeId,
+          operatorCountOnLine: 2,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Parse CREATE INDEX statement.
+ * Aligns: CREATE INDEX name ON table USING method (columns)
+ */
+function parseSqlCreateIndex(
+  lineText: string,
+  lineNum: number,
+  tokens: AlignmentToken[],
+  statementId: number
+): void {
+  const indent = getIndentLevel(lineText);
+  const upper = lineText.toUpperCase();
+  // Use array_ prefix to enable cross-line alignment in Grouper
+  const scopeId = `array_sql_index_${statementId}`;
+
+  // Find ON keyword position
+  const onMatch = upper.match(/\bON\b/);
+  if (onMatch && onMatch.index !== undefined) {
+    tokens.push({
+      line: lineNum,
+      column: onMatch.index,
+      text: "ON",
+      type: "=", // Using = for padBefore
+      indent,
+      parentType: "sql_index",
+      tokenIndex: 0,
+      scopeId,
+      operatorCountOnLine: 2,
+    });
+  }
+
+  // Find USING METHOD pattern and emit token for the method name
+  // Expected: USING GIST (path) -> USING GIST  (path) to align with USING BTREE (path)
+  const usingMethodMatch = upper.match(/\bUSING\s+(\w+)/);
+  if (usingMethodMatch && usingMethodMatch.index !== undefined) {
+    const methodName = usingMethodMatch[1];
+    const methodStart =
+      usingMethodMatch.index + usingMethodMatch[0].indexOf(methodName);
+    // Get the actual case method name from original line
+    const actualMethod = lineText.substring(
+      methodStart,
+      methodStart + methodName.length
+    );
+
+    tokens.push({
+      line: lineNum,
+      column: methodStart,
+      text: actualMethod,
+      type: ":", // Using : for padAfter - pad after method name
+      indent,
+      parentType: "sql_index",
+      tokenIndex: 1,
+      scopeId,
+      operatorCountOnLine: 2,
+    });
+  }
+}
+
+/**
+ * Parse INSERT VALUES tuple.
+ * Aligns comma-separated values across tuples.
+ * Emits comma tokens - padding goes AFTER comma, BEFORE next value.
+ */
+function parseSqlValuesTuple(
+  lineText: string,
+  lineNum: number,
+  tokens: AlignmentToken[],
+  statementId: number
+): void {
+  const indent = getIndentLevel(lineText);
+
+  // Find all comma positions (structural, not inside strings)
+  const commaPositions = findSqlCommas(lineText);
+
+  // Need at least one comma to align
+  if (commaPositions.length === 0) return;
+
+  // Use array_ prefix for scopeId to enable cross-line alignment in Grouper
+  const scopeId = `array_sql_values_${statementId}`;
+  const operatorCountOnLine = commaPositions.length;
+
+  // Emit tokens for each comma (except the last one before closing paren)
+  // Padding goes AFTER the comma to align the NEXT value
+  // Emit tokens for all commas (padding goes after each comma)
+  for (let i = 0; i < commaPositions.length; i++) {
+    const commaPos = commaPositions[i];
+
+    // Emit comma token - padding goes after comma
+    tokens.push({
+      line: lineNum,
+      column: commaPos,
+      text: ",",
+      type: ":", // padAfter - padding goes after comma
+      indent,
+      parentType: "sql_values_comma",
+      tokenIndex: i,
+      scopeId,
+      operatorCountOnLine,
+    });
+  }
+}
+
+/**
+ * Parse a SELECT list line.
+ * Aligns the AS of column aliases: `u.email AS email`.
+ */
+function parseSqlSelectAlias(
+  lineText: string,
+  lineNum: number,
+  tokens: AlignmentToken[],
+  statementId: number,
+  indent: number
+): void {
+  const match = /\bAS\b/i.exec(maskSqlLine(lineText));
+  if (!match) {
+    return;
+  }
+
+  tokens.push({
+    line: lineNum,
+    column: match.index,
+    text: lineText.substring(match.index, match.index + 2),
+    type: "=", // Using = for padBefore - AS keywords align
+    indent,
+    parentType: "sql_select_alias",
+    tokenIndex: 0,
+    scopeId: `array_sql_select_${statementId}`,
+    operatorCountOnLine: 1,
+  });
+}
+
+/**
+ * Parse an UPDATE ... SET line.
+ * Aligns the = of each assignment: `email_address = 'y',`.
+ */
+function parseSqlSetAssignment(
+  lineText: string,
+  lineNum: number,
+  tokens: AlignmentToken[],
+  statementId: number,
+  indent: number
+): void {
+  const column = maskSqlLine(lineText).indexOf("=");
+  if (column < 0) {
+    return;
+  }
+
+  tokens.push({
+    line: lineNum,
+    column,
+    text: "=",
+    type: "=",
+    indent,
+    parentType: "sql_set_assignment",
+    tokenIndex: 0,
+    scopeId: `array_sql_set_${statementId}`,
+    operatorCountOnLine: 1,
+  });
+}
+
+/**
+ * Parse a WHERE clause line.
+ * Lines starting with WHERE/AND/OR get two tokens: the keyword (padded
+ * after so conditions start together) and the condition's comparison
+ * operator (padded before so operators line up).
+ */
+function parseSqlWhereCondition(
+  lineText: string,
+  lineNum: number,
+  tokens: AlignmentToken[],
+  statementId: number,
+  indent: number
+): void {
+  const masked = maskSqlLine(lineText);
+  const keywordMatch = /^(\s*)(WHERE|AND|OR)\b/i.exec(masked);
+  if (!keywordMatch) {
+    return;
+  }
+
+  const keywordStart = keywordMatch[1].length;
+  const keywordEnd = keywordMatch[0].length;
+  const comparisonMatch = /<>|!=|<=|>=|=|<|>/.exec(
+    masked.substring(keywordEnd)
+  );
+  const scopeId = `array_sql_where_${statementId}`;
+  const operatorCountOnLine = comparisonMatch ? 2 : 1;
+
+  tokens.push({
+    line: lineNum,
+    column: keywordStart,
+    text: lineText.substring(keywordStart, keywordEnd),
+    type: ":", // Using : for padAfter - conditions start together
+    indent,
+    parentType: "sql_where_keyword",
+    tokenIndex: 0,
+    scopeId,
+    operatorCountOnLine,
+  });
+
+  if (comparisonMatch) {
+    tokens.push({
+      line: lineNum,
+      column: keywordEnd + comparisonMatch.index,
+      text: comparisonMatch[0],
+      type: "=",
+      indent,
+      parentType: "sql_where_comparison",
+      tokenIndex: 1,
+      scopeId,
+      operatorCountOnLine,
+    });
+  }
+}
+
+/**
+ * Blanks out string literals, parenthesized expressions and trailing
+ * comments in a SQL line, keeping columns intact.
+ * Keywords and operators found in the result are structural.
+ */
+function maskSqlLine(line: string): string {
+  let result = "";
+  let quote: string | null = null;
+  let parenDepth = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+      result += " ";
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      result += " ";
+    } else if (char === "-" && line[i + 1] === "-") {
+      return result.padEnd(line.length);
+    } else if (char === "(") {
+      parenDepth++;
+      result += " ";
+    } else if (char === ")") {
+      parenDepth = Math.max(0, parenDepth - 1);
+      result += " ";
+    } else {
+      result += parenDepth > 0 ? " " : char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find structural commas in SQL (not inside strings).
+ */
+function findSqlCommas(line: string): number[] {
+  const positions: number[] = [];
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+  let parenDepth = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const prevChar = i > 0 ? line[i - 1] : "";
+
+    // Handle escaped quotes
+    if (char === "'" && prevChar !== "\\" && !inDoubleQuote) {
+      inSingleQuote = !inSingleQuote;
+      continue;
+    }
+    if (char === '"' && prevChar !== "\\" && !inSingleQuote) {
+      inDoubleQuote = !inDoubleQuote;
+      continue;
+    }
+
+    if (!inSingleQuote && !inDoubleQuote) {
+      if (char === "(") parenDepth++;
+      if (char === ")") parenDepth--;
+
+      // Only capture top-level commas (inside the VALUES tuple, not nested)
+      if (char === "," && parenDepth === 1) {
+        positions.push(i);
+      }
+    }
+  }
+
+  return positions;
+}
@@ -0,0 +1,143 @@
+/**
+ * Markdown (GFM) tables.
+ *
+ * A table is a header row followed by a delimiter row (`| --- | :-: |`)
+ * with as many cells. Each `|` closing a cell is a column, and cells pad
+ * by their delimiter's alignment.
+ */
+
+import { AlignmentToken, CellAlignment } from "../core/types";
+
+/**
+ * A Markdown table open while scanning.
+ */
+export interface MarkdownTable {
+  scopeId: string;
+  /** Alignment of each column, from the delimiter row */
+  aligns: CellAlignment[];
+  /** Indentation of the header row, shared by every row */
+  indent: number;
+  /** Blockquote depth of the header row */
+  quoteDepth: number;
+}
+
+/**
+ * Splits a Markdown table row into cells, or returns null if the row has
+ * no `|`. Escaped pipes and pipes inside code spans don't split cells.
+ * Each cell has the column its content starts at and the column of the
+ * `|` closing it (null for a last cell without a trailing pipe).
+ */
+export function splitTableRow(
+  row: string
+): Array<{ content: number; pipe: number | null }> | null {
+  const pipes: number[] = [];
+
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\") {
+      i++; // Skip the escaped character
+    } else if (row[i] === "`") {
+      // Code span: runs to the next backtick run of the same length
+      let end = i;
+      while (row[end] === "`") {
+        end++;
+      }
+      const ticks = row.substring(i, end);
+      const closing = new RegExp(`(?<!\`)${ticks}(?!\`)`, "g");
+      closing.lastIndex = end;
+      const match = closing.exec(row);
+      i = match ? match.index + ticks.length - 1 : end - 1;
+    } else if (row[i] === "|") {
+      pipes.push(i);
+    }
+  }
+
+  if (pipes.length === 0) {
+    return null;
+  }
+
+  const cells: Array<{ content: number; pipe: number | null }> = [];
+  const cellAt = (start: number, pipe: number | null): void => {
+    const end = pipe ?? row.length;
+    const offset = row.substring(start, end).search(/\S/);
+    cells.push({ content: offset === -1 ? end : start + offset, pipe });
+  };
+
+  let start = 0;
+  for (const pipe of pipes) {
+    // A leading pipe opens the first cell rather than closing one
+    if (pipe !== pipes[0] || row.substring(0, pipe).trim() !== "") {
+      cellAt(start, pipe);
+    }
+    start = pipe + 1;
+  }
+  if (row.substring(start).trim() !== "") {
+    cellAt(start, null);
+  }
+  return cells;
+}
+
+/**
+ * Parses a Markdown table delimiter row (`| :--- | :-: | --: |`) into the
+ * alignment of each column, or returns null if the line isn't one.
+ */
+export function parseTableDelimiterRow(row: string): CellAlignment[] | null {
+  const cells = splitTableRow(row);
+  if (!cells) {
+    return null;
+  }
+
+  const aligns: CellAlignment[] = [];
+  for (const cell of cells) {
+    const end = cell.pipe ?? row.length;
+    const text = row.substring(cell.content, end).trim();
+    if (!/^:?-+:?$/.test(text)) {
+      return null;
+    }
+    if (text.startsWith(":") && text.endsWith(":")) {
+      aligns.push("center");
+    } else {
+      aligns.push(text.endsWith(":") ? "right" : "left");
+    }
+  }
+  return aligns;
+}
+
+/**
+ * Extracts the tokens of one Markdown table row: a cell token at each `|`
+ * closing a cell. Columns are offset by the stripped blockquote prefix.
+ */
+export function extractTableRowTokens(
+  row: string,
+  line: number,
+  offset: number,
+  table: MarkdownTable
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const delimiterRow = parseTableDelimiterRow(row) !== null;
+  (splitTableRow(row) ?? []).forEach((cell, index) => {
+    if (cell.pipe === null) {
+      return;
+    }
+    tokens.push({
+      line,
+      column: offset + cell.pipe,
+      text: "|",
+      type: "cell",
+      indent: table.indent,
+      parentType: "table",
+      tokenIndex: index,
+      scopeId: table.scopeId,
+      operatorCountOnLine: 0,
+      cellAlign: {
+        align: table.aligns[index] ?? "left",
+        contentColumn: offset + cell.content,
+        delimiterRow,
+      },
+    });
+  });
+
+  for (const token of tokens) {
+    token.operatorCountOnLine = tokens.length;
+  }
+  return tokens;
+}
@@ -2,6 +2,8 @@
  * Pure text utility functions for parsing.
  */
 
+import { LineRange, ParseableDocument } from "../core/types";
+
 /**
  * Gets the indentation level (leading whitespace count) of a line.
  */
@@ -9,3 +11,38 @@ export function getIndentLevel(lineText: string): number {
   const match = lineText.match(/^(\s*)/);
   return match ? match[1].length : 0;
 }
+
+/** Lines a range expands by at most on each side, looking for a blank line */
+export const MAX_EXPANSION = 100;
+
+/**
+ * Expands a line range outward to the nearest blank lines (or document edges),
+ * by at most maxExpansion lines on each side.
+ *
+ * Alignment groups never span a blank line, so every group that touches the
+ * expanded range lies entirely inside it. Parsing just this range yields the
+ * same groups there as a full-document pass. Files without blank lines
+ * (lock files, generated JSON) stop at the limit instead, where a group can
+ * cross the range edge; alignViewport widens the range to such groups.
+ */
+export function expandToBlankLines(
+  document: ParseableDocument,
+  startLine: number,
+  endLine: number,
+  maxExpansion = MAX_EXPANSION
+): LineRange {
+  const lastLine = document.lineCount - 1;
+  let start = Math.max(0, Math.min(startLine, lastLine));
+  let end = Math.max(start, Math.min(endLine, lastLine));
+  const minStart = Math.max(0, start - maxExpansion);
+  const maxEnd = Math.min(lastLine, end + maxExpansion);
+
+  while (start > minStart && document.lineAt(start - 1).text.trim() !== "") {
+    start--;
+  }
+  while (end < maxEnd && document.lineAt(end + 1).text.trim() !== "") {
+    end++;
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,141 @@
+/**
+ * TOML line scanner (no WASM grammar available).
+ *
+ * Aligns the `=` of key/value pairs and trailing comments. `[table]` and
+ * `[[array]]` headers start a new scope, and lines inside multi-line
+ * strings and arrays hold no keys.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * TOML scanner state carried from one line to the next.
+ */
+interface TomlScanState {
+  /** Delimiter of the open multi-line string (""" or '''), if any */
+  multilineQuote: string | null;
+  /** Nesting depth of open arrays and inline tables */
+  depth: number;
+}
+
+/**
+ * Extracts TOML tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ */
+export function extractTomlTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  const state: TomlScanState = { multilineQuote: null, depth: 0 };
+  let table = 0;
+
+  lines.forEach((lineText, i) => {
+    const line = lineOffset + i;
+    const indent = getIndentLevel(lineText);
+    // Lines inside a multi-line string or array hold no keys
+    const continued = state.multilineQuote !== null || state.depth > 0;
+    const { equals, comment } = scanTomlLine(lineText, state);
+
+    if (!continued && lineText.trim().startsWith("[")) {
+      // Table header: pairs after it never align with pairs before it
+      table++;
+      return;
+    }
+
+    const lineTokens: AlignmentToken[] = [];
+    if (!continued && equals !== null) {
+      lineTokens.push({
+        line,
+        column: equals,
+        text: "=",
+        type: "=",
+        indent,
+        parentType: "pair",
+        tokenIndex: 0,
+        scopeId: `${scopePrefix}_table_${table}`,
+        operatorCountOnLine: 0,
+      });
+    }
+    if (comment !== null && lineText.substring(0, comment).trim() !== "") {
+      lineTokens.push({
+        line,
+        column: comment,
+        text: "#",
+        type: "//",
+        indent,
+        parentType: "trailing_comment",
+        tokenIndex: lineTokens.length,
+        scopeId: `${scopePrefix}_trailing_comment`,
+        operatorCountOnLine: 0,
+      });
+    }
+
+    for (const token of lineTokens) {
+      token.operatorCountOnLine = lineTokens.length;
+      tokens.push(token);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Scans one TOML line, updating the state for the next line.
+ * Returns the column of the key/value `=` (the first `=` outside strings,
+ * arrays and inline tables) and of the comment, if any.
+ */
+function scanTomlLine(
+  line: string,
+  state: TomlScanState
+): { equals: number | null; comment: number | null } {
+  let equals: number | null = null;
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (state.multilineQuote) {
+      if (char === "\\" && state.multilineQuote === '"""') {
+        i++; // Skip the escaped character
+      } else if (line.startsWith(state.multilineQuote, i)) {
+        // Up to two more quotes still belong to the string: `""""`
+        let end = i + 3;
+        while (end < i + 5 && line[end] === char) {
+          end++;
+        }
+        i = end - 1;
+        state.multilineQuote = null;
+      }
+      continue;
+    }
+
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        i++; // Skip the escaped character
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (line.startsWith('"""', i) || line.startsWith("'''", i)) {
+      state.multilineQuote = line.substring(i, i + 3);
+      i += 2;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return { equals, comment: i };
+    } else if (char === "[" || char === "{") {
+      state.depth++;
+    } else if (char === "]" || char === "}") {
+      state.depth = Math.max(0, state.depth - 1);
+    } else if (char === "=" && state.depth === 0 && equals === null) {
+      equals = i;
+    }
+  }
+
+  return { equals, comment: null };
+}
@@ -14,11 +14,25 @@ export interface TreeNode {
   type: string;
   text: string;
   startPosition: Point;
+  endPosition: Point;
   parent: TreeNode | null;
+  children: TreeNode[];
+  childForFieldName(fieldName: string): TreeNode | null;
+}
+
+/** Describes a text change, in both offsets and row/column coordinates. */
+export interface Edit {
+  startIndex: number;
+  oldEndIndex: number;
+  newEndIndex: number;
+  startPosition: Point;
+  oldEndPosition: Point;
+  newEndPosition: Point;
 }
 
 export interface Tree {
   rootNode: TreeNode;
+  edit(edit: Edit): void;
   delete(): void;
 }
 
@@ -27,18 +41,23 @@ export interface QueryCapture {
   node: TreeNode;
 }
 
+export interface QueryOptions {
+  startPosition?: Point;
+  endPosition?: Point;
+}
+
 export interface Query {
-  captures(node: TreeNode): QueryCapture[];
+  captures(node: TreeNode, options?: QueryOptions): QueryCapture[];
   delete(): void;
 }
 
 export interface Language {
-  query(source: string): Query;
+  abiVersion: number;
 }
 
 export interface Parser {
   setLanguage(language: Language): void;
-  parse(text: string): Tree | null;
+  parse(text: string, oldTree?: Tree | null): Tree | null;
   delete(): void;
 }
 
@@ -52,3 +71,7 @@ export interface ParserClass {
 export interface LanguageClass {
   load(path: string): Promise<Language>;
 }
+
+export interface QueryClass {
+  new (language: Language, source: string): Query;
+}
@@ -0,0 +1,182 @@
+/**
+ * YAML structural line scanner (no WASM grammar available).
+ *
+ * Aligns the `:` of block mapping pairs; each mapping is its own scope.
+ */
+
+import { AlignmentToken } from "../core/types";
+import { getIndentLevel } from "./text-utils";
+
+/**
+ * A YAML block collection open while scanning.
+ */
+interface YamlCollection {
+  kind: "mapping" | "sequence";
+  /** Column of the collection's keys or dashes */
+  column: number;
+  /** Unique ID; a mapping's pairs share its scope */
+  id: number;
+}
+
+/**
+ * Extracts YAML tokens from lines, the first being document line
+ * lineOffset. Scope IDs start with scopePrefix.
+ *
+ * Tracks the open block collections by column, so pairs align only
+ * within the mapping they belong to and every sequence item starts a new
+ * mapping. Lines indented past a node that already has a value (block
+ * scalars, multi-line flow collections and strings) are skipped, and a
+ * `---` or `...` marker starts a new document.
+ */
+export function extractYamlTokens(
+  lines: string[],
+  lineOffset: number,
+  scopePrefix: string
+): AlignmentToken[] {
+  const tokens: AlignmentToken[] = [];
+  let open: YamlCollection[] = [];
+  let nextId = 0;
+  // Lines indented past this column continue the previous value
+  let valueColumn: number | null = null;
+
+  // Returns the collection of the given kind at column, opening it if needed
+  const enter = (
+    kind: YamlCollection["kind"],
+    column: number
+  ): YamlCollection => {
+    while (open.length > 0 && open[open.length - 1].column > column) {
+      open.pop();
+    }
+    let top = open[open.length - 1];
+    if (top?.column === column && top.kind !== kind && kind === "mapping") {
+      // A key at the column of a compact sequence ends the sequence
+      open.pop();
+      top = open[open.length - 1];
+    }
+    if (top?.column === column && top.kind === kind) {
+      return top;
+    }
+    const collection: YamlCollection = { kind, column, id: nextId++ };
+    open.push(collection);
+    return collection;
+  };
+
+  lines.forEach((lineText, i) => {
+    const trimmed = lineText.trim();
+    if (trimmed === "") {
+      return;
+    }
+    // Document markers end any value, even a `--- |` document's scalar
+    const marker = lineText.match(/^(---|\.\.\.)(\s|$)/);
+    if (marker) {
+      // Nothing aligns across documents
+      open = [];
+      valueColumn = null;
+      const rest = lineText.substring(3).trim();
+      if (marker[1] === "---" && rest !== "" && !rest.startsWith("#")) {
+        // `--- |` etc.: the rest of the document is one scalar
+        valueColumn = -1;
+      }
+      return;
+    }
+
+    const indent = getIndentLevel(lineText);
+    if (valueColumn !== null && indent > valueColumn) {
+      return;
+    }
+    valueColumn = null;
+    if (trimmed.startsWith("#") || lineText.startsWith("%")) {
+      return;
+    }
+
+    let column = indent;
+    let dash: number | null = null;
+    while (
+      lineText[column] === "-" &&
+      (column + 1 === lineText.length || /\s/.test(lineText[column + 1]))
+    ) {
+      // Sequence item: whatever follows the dash is a new node
+      enter("sequence", column);
+      dash = column;
+      column = column + 1 + getIndentLevel(lineText.substring(column + 1));
+    }
+    if (column >= lineText.trimEnd().length || lineText[column] === "#") {
+      return;
+    }
+
+    const colon = findYamlKeyColon(lineText, column);
+    if (colon === null) {
+      valueColumn = dash ?? indent;
+      return;
+    }
+
+    const mapping = enter("mapping", column);
+    tokens.push({
+      line: lineOffset + i,
+      column: colon,
+      text: ":",
+      type: ":",
+      indent: column,
+      parentType: "pair",
+      tokenIndex: 0,
+      scopeId: `${scopePrefix}_mapping_${mapping.id}`,
+      operatorCountOnLine: 1,
+    });
+
+    // Anchors and tags alone leave the value to the lines below
+    const value = lineText
+      .substring(colon + 1)
+      .trim()
+      .replace(/^([&!]\S*\s*)+/, "");
+    if (value !== "" && !value.startsWith("#")) {
+      valueColumn = column;
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Returns the column of the `:` ending a block mapping key that starts
+ * at column start, or null if the node there is not a key.
+ */
+function findYamlKeyColon(line: string, start: number): number | null {
+  let end = start;
+
+  const quote = line[start];
+  if (quote === '"' || quote === "'") {
+    // Quoted key: `\` escapes in double quotes, `''` in single quotes
+    end = start + 1;
+    while (end < line.length) {
+      if (quote === '"' && line[end] === "\\") {
+        end += 2;
+      } else if (quote === "'" && line.startsWith("''", end)) {
+        end += 2;
+      } else if (line[end] === quote) {
+        break;
+      } else {
+        end++;
+      }
+    }
+    end = end + 1 + getIndentLevel(line.substring(end + 1));
+    return line[end] === ":" && /^(\s|$)/.test(line.substring(end + 1))
+      ? end
+      : null;
+  }
+
+  // Flow collections, block scalars, aliases and complex keys
+  if ("[{|>*?".includes(quote)) {
+    return null;
+  }
+
+  // Plain key: ends at the first `: `, unless a comment comes first
+  for (; end < line.length; end++) {
+    if (line[end] === ":" && /^(\s|$)/.test(line.substring(end + 1))) {
+      return end;
+    }
+    if (line[end] === "#" && /\s/.test(line[end - 1] ?? "")) {
+      return null;
+    }
+  }
+  return null;
+}
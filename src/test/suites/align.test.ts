@@ -0,0 +1,58 @@
+/**
+ * Headless API Tests
+ *
+ * alignText must produce the same text as the format command and report the
+ * groups it aligned.
+ */
+
+import * as assert from "assert";
+import { alignText, disposeParsers } from "../../align";
+
+suite("Headless API Tests", () => {
+  suiteTeardown(async () => {
+    await disposeParsers();
+  });
+
+  test("aligns text and returns its groups", async () => {
+    const result = await alignText(
+      ["const a = 1;", "const bbbb = 2;"].join("\r\n"),
+      "typescript"
+    );
+
+    assert.strictEqual(
+      result.text,
+      ["const a    = 1;", "const bbbb = 2;"].join("\r\n")
+    );
+    assert.strictEqual(result.groups.length, 1);
+    assert.deepStrictEqual(
+      result.groups[0].tokens.map((t) => t.line),
+      [0, 1]
+    );
+  });
+
+  test("range only aligns groups touching it", async () => {
+    const source = ["a: 1", "bbb: 2", "", "c: 3", "dddd: 4"].join("\n");
+    const result = await alignText(source, "yaml", {
+      range: { start: 3, end: 3 },
+    });
+
+    assert.strictEqual(
+      result.text,
+      ["a: 1", "bbb: 2", "", "c:    3", "dddd: 4"].join("\n")
+    );
+    assert.strictEqual(result.groups.length, 1);
+  });
+
+  test("leaves virtual-only languages unchanged", async () => {
+    const source = ["A=1", "LONG_NAME=2"].join("\n");
+    const result = await alignText(source, "dotenv");
+
+    // `A   =1` would break `source .env` and docker --env-file
+    assert.strictEqual(result.text, source);
+    assert.deepStrictEqual(result.groups, []);
+  });
+
+  test("rejects unsupported languages", async () => {
+    await assert.rejects(alignText("x = 1", "cobol"), /not supported/);
+  });
+});
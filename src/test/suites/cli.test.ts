@@ -0,0 +1,88 @@
+/**
+ * CLI Tests
+ *
+ * Diff output and glob matching for the standalone virtual-align command.
+ */
+
+import * as assert from "assert";
+import { createUnifiedDiff } from "../../cli/diff";
+import { getLanguageForFile, globToRegExp } from "../../cli/files";
+
+suite("CLI Tests", () => {
+  test("unified diff groups changed lines into hunks with context", () => {
+    const oldText = ["a = 1", "bbb = 2", "c", "d", "e", "f", "g", "h", "i"]
+      .join("\n")
+      .concat("\n");
+    const newText = ["a   = 1", "bbb = 2", "c", "d", "e", "f", "g", "h", "x"]
+      .join("\n")
+      .concat("\n");
+
+    assert.strictEqual(
+      createUnifiedDiff("file.ts", oldText, newText),
+      [
+        "--- a/file.ts",
+        "+++ b/file.ts",
+        "@@ -1,4 +1,4 @@",
+        "-a = 1",
+        "+a   = 1",
+        " bbb = 2",
+        " c",
+        " d",
+        "@@ -6,4 +6,4 @@",
+        " f",
+        " g",
+        " h",
+        "-i",
+        "+x",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("unified diff lists removals before additions in a changed run", () => {
+    const diff = createUnifiedDiff("f.yaml", "a: 1\nbb: 2\n", "a:  1\nbb: 3\n");
+    assert.strictEqual(
+      diff,
+      [
+        "--- a/f.yaml",
+        "+++ b/f.yaml",
+        "@@ -1,2 +1,2 @@",
+        "-a: 1",
+        "-bb: 2",
+        "+a:  1",
+        "+bb: 3",
+        "",
+      ].join("\n")
+    );
+    assert.strictEqual(createUnifiedDiff("f.yaml", "a\n", "a\n"), "");
+  });
+
+  test("globs match across directories", () => {
+    const pattern = globToRegExp("/repo/src/**/*.{ts,yaml}");
+    assert.ok(pattern.test("/repo/src/a.ts"));
+    assert.ok(pattern.test("/repo/src/deep/nested/b.yaml"));
+    assert.ok(!pattern.test("/repo/src/c.json"));
+    assert.ok(!pattern.test("/repo/other/a.ts"));
+    assert.ok(globToRegExp("/repo/?.py").test("/repo/a.py"));
+  });
+
+  test("file extensions map to supported languages", () => {
+    assert.strictEqual(getLanguageForFile("a/b.tsx"), "typescriptreact");
+    assert.strictEqual(getLanguageForFile("config.yml"), "yaml");
+    assert.strictEqual(getLanguageForFile(".babelrc.json5"), "json5");
+    assert.strictEqual(getLanguageForFile("docs/intro.mdx"), "mdx");
+    assert.strictEqual(getLanguageForFile("main.rs"), "rust");
+    assert.strictEqual(getLanguageForFile("Cargo.toml"), "toml");
+    assert.strictEqual(getLanguageForFile("/app/.env"), "dotenv");
+    assert.strictEqual(getLanguageForFile(".env.local"), "dotenv");
+    assert.strictEqual(getLanguageForFile(".editorconfig"), "properties");
+    assert.strictEqual(getLanguageForFile("php.ini"), "ini");
+    assert.strictEqual(getLanguageForFile("main.tf"), "terraform");
+    assert.strictEqual(getLanguageForFile("user.proto"), "proto");
+    assert.strictEqual(getLanguageForFile("schema.gql"), "graphql");
+    assert.strictEqual(getLanguageForFile("uart.h"), "cpp");
+    assert.strictEqual(getLanguageForFile("App.svelte"), "svelte");
+    assert.strictEqual(getLanguageForFile("icon.svg"), "xml");
+    assert.strictEqual(getLanguageForFile("main.rb"), null);
+  });
+});
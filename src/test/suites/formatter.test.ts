@@ -0,0 +1,138 @@
+/**
+ * Formatter Tests
+ *
+ * Writing alignment into the text and removing it again must round-trip:
+ * collapsing padded text gives back exactly the unpadded text.
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { applyPaddingOps, calculateCollapseOps } from "../../logic/Formatter";
+import { groupTokens } from "../../logic/Grouper";
+import { calculatePaddingOps } from "../../logic/Layout";
+import { ParserService } from "../../parsing/ParserService";
+import { createMockDocument } from "../mocks/MockDocument";
+import { collectFixtures, FIXTURES_DIR } from "../test-helpers";
+
+suite("Formatter Tests", () => {
+  let parserService: ParserService;
+
+  suiteSetup(async () => {
+    const wasmDir = path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+    parserService = new ParserService({ wasmDir });
+    await parserService.initialize();
+  });
+
+  suiteTeardown(() => {
+    parserService.dispose();
+  });
+
+  /** Applies the padding ops for the current groups and returns the text */
+  async function pad(content: string, languageId: string): Promise<string> {
+    const doc = createMockDocument(content, languageId);
+    const groups = groupTokens(
+      await parserService.parse(doc, 0, doc.lineCount - 1)
+    );
+    return applyPaddingOps(content, calculatePaddingOps(groups));
+  }
+
+  /** Applies the collapse ops for the current groups and returns the text */
+  async function collapse(
+    content: string,
+    languageId: string
+  ): Promise<string> {
+    const doc = createMockDocument(content, languageId);
+    const groups = groupTokens(
+      await parserService.parse(doc, 0, doc.lineCount - 1)
+    );
+    const lines = content.split("\n");
+    const ops = calculateCollapseOps(doc, groups).reverse();
+    for (const op of ops) {
+      const text = lines[op.line];
+      lines[op.line] =
+        text.slice(0, op.startColumn) +
+        " ".repeat(op.spaces) +
+        text.slice(op.endColumn);
+    }
+    return lines.join("\n");
+  }
+
+  test("removes padding before and after operators", async () => {
+    const aligned = [
+      "const a      = 1;",
+      "const bbbbbb = 2;",
+      "",
+      "const obj = {",
+      "  x:      1,",
+      "  longer: 2,",
+      "};",
+    ].join("\n");
+
+    assert.strictEqual(
+      await collapse(aligned, "typescript"),
+      [
+        "const a = 1;",
+        "const bbbbbb = 2;",
+        "",
+        "const obj = {",
+        "  x: 1,",
+        "  longer: 2,",
+        "};",
+      ].join("\n")
+    );
+  });
+
+  test("keeps compact style compact", async () => {
+    const content = [
+      "const rows = [",
+      "  {id: 1, name: 'a'},",
+      "  {id: 22, name: 'bb'},",
+      "];",
+    ].join("\n");
+
+    const padded = await pad(content, "typescript");
+    assert.notStrictEqual(padded, content);
+    assert.strictEqual(await collapse(padded, "typescript"), content);
+  });
+
+  test("keeps table delimiter rows in their own style", async () => {
+    for (const content of [
+      ["| a | b |", "|---|---|", "| 1 | 2 |"].join("\n"),
+      ["| a | b | c |", "|:-----|:---:|-----:|", "| 1 | 2 | 3 |"].join("\n"),
+      ["| Name | Size |", "| :--- | ---: |", "| a | 100 |"].join("\n"),
+    ]) {
+      assert.strictEqual(await collapse(content, "markdown"), content);
+
+      const padded = await pad(content, "markdown");
+      // Delimiter cells pad after their dashes, never before them
+      const delimiterRow = content.split("\n")[1];
+      assert.ok(
+        padded.split("\n")[1].startsWith(delimiterRow.replace(/\|$/, "")),
+        padded
+      );
+      assert.strictEqual(await collapse(padded, "markdown"), content);
+    }
+  });
+
+  test("align then remove round-trips for every fixture", async () => {
+    for (const fixture of collectFixtures()) {
+      const name = path.relative(FIXTURES_DIR, fixture.dir);
+      const { languageId } = fixture;
+      const content = fs
+        .readFileSync(fixture.beforePath, "utf-8")
+        .replace(/\r\n/g, "\n");
+      const padded = await pad(content, languageId);
+      if (padded === content) {
+        // Already aligned: removing alignment can't give the fixture back
+        continue;
+      }
+
+      assert.strictEqual(
+        await collapse(padded, languageId),
+        content,
+        `${name} does not round-trip`
+      );
+    }
+  }).timeout(10000);
+});
@@ -7,7 +7,7 @@
 
 import * as assert from "assert";
 import { AlignmentToken } from "../../core/types";
-import { groupTokens } from "../../logic/Grouper";
+import { groupTokens, regroupTokens } from "../../logic/Grouper";
 import { token } from "../test-helpers";
 
 suite("Grouper Tests", () => {
@@ -232,6 +232,102 @@ suite("Grouper Tests", () => {
     // Equals pad before
     assert.strictEqual(equalsGroups[0].padAfter, false);
   });
+
+  test("arrows pad before and align column by column within their scope", () => {
+    const tokens: AlignmentToken[] = [
+      // Two arms per line: second arrows still align across lines
+      token(0, 15, "=>", "=>", {
+        parentType: "match_arm",
+        scopeId: "match_block_1",
+        tokenIndex: 0,
+        operatorCountOnLine: 2,
+      }),
+      token(0, 30, "=>", "=>", {
+        parentType: "match_arm",
+        scopeId: "match_block_1",
+        tokenIndex: 1,
+        operatorCountOnLine: 2,
+      }),
+      token(1, 15, "=>", "=>", {
+        parentType: "match_arm",
+        scopeId: "match_block_1",
+        tokenIndex: 0,
+        operatorCountOnLine: 2,
+      }),
+      token(1, 34, "=>", "=>", {
+        parentType: "match_arm",
+        scopeId: "match_block_1",
+        tokenIndex: 1,
+        operatorCountOnLine: 2,
+      }),
+      // Assignment on the next line never joins the arrows
+      token(2, 15, "=", "=", { parentType: "match_arm" }),
+    ];
+
+    const groups = groupTokens(tokens);
+
+    assert.strictEqual(groups.length, 2);
+    assert.ok(groups.every((g) => g.tokens.every((t) => t.type === "=>")));
+    assert.ok(groups.every((g) => !g.padAfter));
+    assert.strictEqual(groups[1].targetColumn, 34);
+  });
+
+  test("cells align column by column across rows", () => {
+    // string          name = 1;
+    // repeated string ids  = 2;
+    const cell = (line: number, column: number, text: string, i: number) =>
+      token(line, column, text, "cell", {
+        parentType: "field",
+        scopeId: "proto_block_0",
+        tokenIndex: i,
+        operatorCountOnLine: 2,
+      });
+    const tokens: AlignmentToken[] = [
+      cell(0, 9, "name", 0),
+      cell(0, 14, "=", 1),
+      cell(1, 18, "ids", 0),
+      cell(1, 22, "=", 1),
+    ];
+
+    const groups = groupTokens(tokens);
+
+    assert.strictEqual(groups.length, 2);
+    assert.deepStrictEqual(
+      groups.map((g) => g.tokens.map((t) => t.text)),
+      [
+        ["name", "ids"],
+        ["=", "="],
+      ]
+    );
+  });
+
+  test("regroupTokens reuses untouched groups and matches groupTokens", () => {
+    const before: AlignmentToken[] = [
+      token(0, 7, "=", "=", { parentType: "variable_declarator" }),
+      token(1, 9, "=", "=", { parentType: "variable_declarator" }),
+      token(3, 4, ":", ":", { indent: 2, parentType: "property_signature" }),
+      token(4, 8, ":", ":", { indent: 2, parentType: "property_signature" }),
+    ];
+    const previousGroups = groupTokens(before);
+
+    // Simulate an edit that inserts a matching line under the first group
+    // and shifts the second group down by one line
+    before[2].line = 4;
+    before[3].line = 5;
+    const after = [
+      ...before.slice(0, 2),
+      token(2, 5, "=", "=", { parentType: "variable_declarator" }),
+      ...before.slice(2),
+    ];
+
+    const regrouped = regroupTokens(after, previousGroups);
+    const expected = groupTokens(after);
+
+    assert.deepStrictEqual(regrouped, expected);
+    // The interface group was reused as-is, the const group was rebuilt
+    assert.strictEqual(regrouped[1].tokens, previousGroups[1].tokens);
+    assert.strictEqual(regrouped[0].tokens.length, 3);
+  });
 });
 
 suite("Types Tests", () => {
@@ -239,20 +335,36 @@ suite("Types Tests", () => {
     const { isSupportedLanguage } = require("../../core/types");
     assert.strictEqual(isSupportedLanguage("typescript"), true);
     assert.strictEqual(isSupportedLanguage("typescriptreact"), true);
+    assert.strictEqual(isSupportedLanguage("javascript"), true);
+    assert.strictEqual(isSupportedLanguage("javascriptreact"), true);
     assert.strictEqual(isSupportedLanguage("json"), true);
     assert.strictEqual(isSupportedLanguage("jsonc"), true);
+    assert.strictEqual(isSupportedLanguage("json5"), true);
     assert.strictEqual(isSupportedLanguage("yaml"), true);
     assert.strictEqual(isSupportedLanguage("python"), true);
     assert.strictEqual(isSupportedLanguage("css"), true);
     assert.strictEqual(isSupportedLanguage("scss"), true);
     assert.strictEqual(isSupportedLanguage("less"), true);
     assert.strictEqual(isSupportedLanguage("markdown"), true);
+    assert.strictEqual(isSupportedLanguage("mdx"), true);
+    assert.strictEqual(isSupportedLanguage("sql"), true);
+    assert.strictEqual(isSupportedLanguage("go"), true);
+    assert.strictEqual(isSupportedLanguage("rust"), true);
+    assert.strictEqual(isSupportedLanguage("toml"), true);
+    assert.strictEqual(isSupportedLanguage("dotenv"), true);
+    assert.strictEqual(isSupportedLanguage("properties"), true);
+    assert.strictEqual(isSupportedLanguage("terraform"), true);
+    assert.strictEqual(isSupportedLanguage("proto"), true);
+    assert.strictEqual(isSupportedLanguage("graphql"), true);
+    assert.strictEqual(isSupportedLanguage("c"), true);
+    assert.strictEqual(isSupportedLanguage("cpp"), true);
+    assert.strictEqual(isSupportedLanguage("vue"), true);
+    assert.strictEqual(isSupportedLanguage("html"), true);
   });
 
   test("isSupportedLanguage returns false for unsupported languages", () => {
     const { isSupportedLanguage } = require("../../core/types");
-    assert.strictEqual(isSupportedLanguage("javascript"), false);
-    assert.strictEqual(isSupportedLanguage("rust"), false);
-    assert.strictEqual(isSupportedLanguage("go"), false);
+    assert.strictEqual(isSupportedLanguage("ruby"), false);
+    assert.strictEqual(isSupportedLanguage("haskell"), false);
   });
 });
@@ -0,0 +1,204 @@
+/**
+ * Incremental Parsing Tests
+ *
+ * Verify that parsing after applyEdits produces the same alignment as
+ * a fresh parse of the edited text, and that unchanged lines reuse tokens.
+ */
+
+import * as assert from "assert";
+import * as path from "path";
+import { AlignmentGroup, DocumentChange } from "../../core/types";
+import { groupTokens, regroupTokens } from "../../logic/Grouper";
+import { ParserService } from "../../parsing/ParserService";
+import { createMockDocument } from "../mocks/MockDocument";
+
+suite("Incremental Parsing Tests", () => {
+  let parserService: ParserService;
+
+  suiteSetup(async () => {
+    const wasmDir = path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+    parserService = new ParserService({ wasmDir });
+    await parserService.initialize();
+  });
+
+  suiteTeardown(() => {
+    parserService.dispose();
+  });
+
+  /** Applies a single replacement to text and describes it as a change */
+  function replace(
+    text: string,
+    line: number,
+    character: number,
+    length: number,
+    newText: string
+  ): { text: string; change: DocumentChange } {
+    const lines = text.split("\n");
+    let offset = character;
+    for (let i = 0; i < line; i++) {
+      offset += lines[i].length + 1;
+    }
+    const removed = text.slice(offset, offset + length);
+    const removedLines = removed.split("\n");
+    const endLine = line + removedLines.length - 1;
+    const endCharacter =
+      removedLines.length === 1
+        ? character + length
+        : removedLines[removedLines.length - 1].length;
+
+    return {
+      text: text.slice(0, offset) + newText + text.slice(offset + length),
+      change: {
+        range: {
+          start: { line, character },
+          end: { line: endLine, character: endCharacter },
+        },
+        rangeOffset: offset,
+        rangeLength: length,
+        text: newText,
+      },
+    };
+  }
+
+  /** Strips parse-specific IDs so groups from different parses compare */
+  function shape(groups: AlignmentGroup[]) {
+    return groups.map((g) => ({
+      lines: g.tokens.map((t) => t.line),
+      columns: g.tokens.map((t) => t.column),
+      targetColumn: g.targetColumn,
+      padAfter: g.padAfter,
+    }));
+  }
+
+  async function parseFresh(text: string): Promise<AlignmentGroup[]> {
+    const doc = createMockDocument(text, "typescript");
+    return groupTokens(await parserService.parse(doc, 0, doc.lineCount - 1));
+  }
+
+  const source = [
+    "const ccc = 3; // trailing",
+    "const d = 4; // comment",
+    "",
+    "interface User {",
+    "  id: number;",
+    "  name: string;",
+    "}",
+    "",
+    "const a = 1;",
+    "const bb = 2;",
+  ].join("\n");
+
+  test("inserting a line matches a fresh parse", async () => {
+    const uri = "test://insert-line";
+    const doc = createMockDocument(source, "typescript");
+    const first = await parserService.parse(
+      { ...doc, uri },
+      0,
+      doc.lineCount - 1
+    );
+    const previousGroups = groupTokens(first);
+
+    const edit = replace(source, 5, 15, 0, "\n  description: string;");
+    parserService.applyEdits(uri, [edit.change]);
+
+    const edited = createMockDocument(edit.text, "typescript");
+    const tokens = await parserService.parse(
+      { ...edited, uri },
+      0,
+      edited.lineCount - 1
+    );
+
+    assert.deepStrictEqual(
+      shape(regroupTokens(tokens, previousGroups)),
+      shape(await parseFresh(edit.text))
+    );
+
+    // The const declarations below the edit were shifted, not re-extracted
+    const reused = first.filter((t) => tokens.includes(t));
+    assert.deepStrictEqual(
+      reused.filter((t) => t.line > 6).map((t) => t.line),
+      [9, 10]
+    );
+    parserService.closeDocument(uri);
+  });
+
+  test("editing inside a statement matches a fresh parse", async () => {
+    const uri = "test://edit-statement";
+    const doc = createMockDocument(source, "typescript");
+    await parserService.parse({ ...doc, uri }, 0, doc.lineCount - 1);
+
+    const edit = replace(source, 8, 6, 1, "alpha");
+    parserService.applyEdits(uri, [edit.change]);
+
+    const edited = createMockDocument(edit.text, "typescript");
+    const tokens = await parserService.parse(
+      { ...edited, uri },
+      0,
+      edited.lineCount - 1
+    );
+
+    assert.deepStrictEqual(
+      shape(groupTokens(tokens)),
+      shape(await parseFresh(edit.text))
+    );
+    parserService.closeDocument(uri);
+  });
+
+  test("deleting lines matches a fresh parse", async () => {
+    const uri = "test://delete-lines";
+    const doc = createMockDocument(source, "typescript");
+    await parserService.parse({ ...doc, uri }, 0, doc.lineCount - 1);
+
+    // Remove the interface and blank lines so the const groups become adjacent
+    const start = source.indexOf("\n\ninterface");
+    const end = source.indexOf("\nconst a");
+    const edit = replace(source, 1, 23, end - start, "");
+    parserService.applyEdits(uri, [edit.change]);
+
+    const edited = createMockDocument(edit.text, "typescript");
+    const tokens = await parserService.parse(
+      { ...edited, uri },
+      0,
+      edited.lineCount - 1
+    );
+
+    assert.deepStrictEqual(
+      shape(groupTokens(tokens)),
+      shape(await parseFresh(edit.text))
+    );
+    parserService.closeDocument(uri);
+  });
+
+  test("edits under an error root match a fresh parse", async () => {
+    const uri = "test://error-root";
+    // Half-typed code found by random edits: the edit turns the `program`
+    // root into an ERROR node, and reuses only some of the const lines
+    const text = [
+      "}",
+      "const a = 1;",
+      "const bb = 2;",
+      "let q = { k:,",
+      ":",
+      "const =",
+      "n = c / x =",
+    ].join("\n");
+    const doc = createMockDocument(text, "typescript");
+    await parserService.parse({ ...doc, uri }, 0, doc.lineCount - 1);
+
+    const edit = replace(text, 3, 10, 2, "const z = 9;");
+    parserService.applyEdits(uri, [edit.change]);
+
+    const edited = createMockDocument(edit.text, "typescript");
+    const tokens = await parserService.parse(
+      { ...edited, uri },
+      0,
+      edited.lineCount - 1
+    );
+
+    assert.deepStrictEqual(
+      shape(groupTokens(tokens)),
+      shape(await parseFresh(edit.text))
+    );
+    parserService.closeDocument(uri);
+  });
+});
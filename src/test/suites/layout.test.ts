@@ -0,0 +1,180 @@
+/**
+ * Layout Tests
+ *
+ * Decorations and Apply Formatting share one layout, so what the editor
+ * displays must be exactly what formatting writes.
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { alignText, disposeParsers, isFormattableLanguage } from "../../align";
+import { groupTokens } from "../../logic/Grouper";
+import {
+  calculatePaddingOps,
+  groupOpsByWidth,
+  MAX_PADDING_WIDTH,
+} from "../../logic/Layout";
+import { ParserService } from "../../parsing/ParserService";
+import { collectFixtures, FIXTURES_DIR, token } from "../test-helpers";
+import { createMockDocument } from "../mocks/MockDocument";
+
+suite("Layout Tests", () => {
+  let parserService: ParserService;
+
+  suiteSetup(async () => {
+    const wasmDir = path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+    parserService = new ParserService({ wasmDir });
+    await parserService.initialize();
+  });
+
+  suiteTeardown(async () => {
+    parserService.dispose();
+    await disposeParsers();
+  });
+
+  /** Renders decoration batches as text, the way the editor displays them */
+  function renderDecorations(
+    content: string,
+    opsByWidth: ReturnType<typeof groupOpsByWidth>
+  ): string {
+    const lines = content.split("\n");
+    const inserts = [...opsByWidth].flatMap(([width, ops]) =>
+      ops.map((op) => ({ line: op.line, column: op.column, width }))
+    );
+    inserts.sort((a, b) => b.column - a.column);
+    for (const { line, column, width } of inserts) {
+      lines[line] =
+        lines[line].slice(0, column) +
+        " ".repeat(width) +
+        lines[line].slice(column);
+    }
+    return lines.join("\n");
+  }
+
+  test("function arguments right-align column by column", () => {
+    const ops = calculatePaddingOps([
+      {
+        id: "a",
+        tokens: [token(0, 6, "1", "funcArg"), token(1, 6, "100", "funcArg")],
+        targetColumn: 9,
+        padAfter: false,
+      },
+    ]);
+
+    assert.deepStrictEqual(ops, [{ line: 0, column: 6, spaces: 2 }]);
+  });
+
+  test("padding wider than the limit is dropped", () => {
+    const far = MAX_PADDING_WIDTH + 10;
+    const ops = calculatePaddingOps([
+      {
+        id: "a",
+        tokens: [token(0, 2, "=", "="), token(1, far, "=", "=")],
+        targetColumn: far,
+        padAfter: false,
+      },
+    ]);
+
+    assert.deepStrictEqual(ops, []);
+  });
+
+  test("empty cells widen their column and push the next cell", () => {
+    // \tA Kind // a
+    // \tLonger // b   (empty type cell after the name)
+    const cell = (line: number, column: number, text: string, index: number) =>
+      token(line, column, text, "cell", {
+        parentType: "const_spec",
+        tokenIndex: index,
+      });
+    const ops = calculatePaddingOps([
+      {
+        id: "types",
+        tokens: [cell(0, 3, "Kind", 0), cell(1, 8, "", 0)],
+        targetColumn: 8,
+        padAfter: false,
+      },
+      {
+        id: "comments",
+        tokens: [cell(0, 8, "// a", 1), cell(1, 8, "// b", 1)],
+        targetColumn: 8,
+        padAfter: false,
+      },
+    ]);
+
+    assert.deepStrictEqual(ops, [
+      { line: 0, column: 3, spaces: 5 },
+      { line: 1, column: 8, spaces: 5 },
+    ]);
+  });
+
+  test("right and center table cells pad before their content", () => {
+    // | 1 | a |
+    // | 100 | abcde |
+    const pipe = (
+      line: number,
+      column: number,
+      index: number,
+      align: "right" | "center",
+      contentColumn: number
+    ) =>
+      token(line, column, "|", "cell", {
+        parentType: "table",
+        tokenIndex: index,
+        cellAlign: { align, contentColumn, delimiterRow: false },
+      });
+    const ops = calculatePaddingOps([
+      {
+        id: "numbers",
+        tokens: [pipe(0, 4, 0, "right", 2), pipe(1, 6, 0, "right", 2)],
+        targetColumn: 6,
+        padAfter: false,
+      },
+      {
+        id: "names",
+        tokens: [pipe(0, 8, 1, "center", 6), pipe(1, 14, 1, "center", 8)],
+        targetColumn: 14,
+        padAfter: false,
+      },
+    ]);
+
+    assert.deepStrictEqual(ops, [
+      { line: 0, column: 2, spaces: 2 },
+      { line: 0, column: 6, spaces: 2 },
+      { line: 0, column: 8, spaces: 2 },
+    ]);
+  });
+
+  test("decorations and Apply Formatting match every fixture", async () => {
+    for (const fixture of collectFixtures()) {
+      const name = path.relative(FIXTURES_DIR, fixture.dir);
+      const { languageId } = fixture;
+      const read = (file: string): string =>
+        fs.readFileSync(file, "utf-8").replace(/\r\n/g, "\n");
+      const content = read(fixture.beforePath);
+      const expected = read(fixture.afterPath);
+      const doc = createMockDocument(content, languageId);
+      const groups = groupTokens(
+        await parserService.parse(doc, 0, doc.lineCount - 1)
+      );
+
+      const displayed = renderDecorations(
+        content,
+        groupOpsByWidth(calculatePaddingOps(groups))
+      );
+      const formatted = (await alignText(content, languageId)).text;
+
+      assert.strictEqual(
+        displayed,
+        expected,
+        `${name} displays differently than its snapshot`
+      );
+      assert.strictEqual(
+        formatted,
+        // Virtual-only languages are displayed aligned but never written
+        isFormattableLanguage(languageId) ? expected : content,
+        `${name} formats differently than its snapshot`
+      );
+    }
+  }).timeout(10000);
+});
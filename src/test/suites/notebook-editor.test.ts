@@ -0,0 +1,114 @@
+/**
+ * Notebook Editor Tests
+ *
+ * Runs inside VS Code (npm test): opens a real .ipynb and checks that the
+ * extension decorates the editors of its cells, each cell on its own.
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { NOTEBOOK_CELL_SCHEME } from "../../core/notebook";
+import { ExtensionApi } from "../../extension";
+
+const EXTENSION_ID = "zaydek.even-better-virtual-align";
+
+/** Polls until get returns a value, to wait out the debounced updates */
+async function waitFor<T>(
+  get: () => T | undefined,
+  timeoutMs = 10000
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = get();
+    if (value !== undefined) {
+      return value;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+/** A notebook cell in the .ipynb format */
+function cell(cellType: "code" | "markdown", lines: string[]) {
+  return {
+    cell_type: cellType,
+    metadata: {},
+    source: lines.map((line, i) => (i < lines.length - 1 ? `${line}\n` : line)),
+    ...(cellType === "code" ? { execution_count: null, outputs: [] } : {}),
+  };
+}
+
+suite("Notebook Editor Tests", () => {
+  let api: ExtensionApi;
+  let tempDir: string;
+
+  suiteSetup(async () => {
+    const extension = vscode.extensions.getExtension<
+      ExtensionApi | undefined
+    >(EXTENSION_ID);
+    assert.ok(extension, `${EXTENSION_ID} is not installed`);
+    const exports = await extension.activate();
+    assert.ok(exports, "The extension failed to activate");
+    api = exports;
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "virtual-align-"));
+  });
+
+  suiteTeardown(async () => {
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors");
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("code cell editors receive decorations", async () => {
+    const notebookPath = path.join(tempDir, "analysis.ipynb");
+    fs.writeFileSync(
+      notebookPath,
+      JSON.stringify({
+        cells: [
+          cell("code", ["x = 1", "total = 2"]),
+          cell("markdown", ["# Results"]),
+          cell("code", ["a = 1", "bb = 2"]),
+        ],
+        metadata: { language_info: { name: "python" } },
+        nbformat: 4,
+        nbformat_minor: 5,
+      })
+    );
+
+    const notebook = await vscode.workspace.openNotebookDocument(
+      vscode.Uri.file(notebookPath)
+    );
+    await vscode.window.showNotebookDocument(notebook);
+
+    const codeCells = notebook
+      .getCells()
+      .filter((c) => c.kind === vscode.NotebookCellKind.Code);
+    assert.strictEqual(codeCells.length, 2);
+
+    const padding = [];
+    for (const codeCell of codeCells) {
+      assert.strictEqual(codeCell.document.uri.scheme, NOTEBOOK_CELL_SCHEME);
+      assert.strictEqual(codeCell.document.languageId, "python");
+
+      const ops = await waitFor(() => {
+        const editor = vscode.window.visibleTextEditors.find(
+          (e) => e.document === codeCell.document
+        );
+        const shown = editor && api.getPadding(editor);
+        return shown && shown.length > 0 ? shown : undefined;
+      });
+      padding.push(ops.map((op) => ({ line: op.line, spaces: op.spaces })));
+    }
+
+    // Each cell aligns on its own, not against the other cell
+    assert.deepStrictEqual(padding, [
+      [{ line: 0, spaces: 4 }],
+      [{ line: 0, spaces: 1 }],
+    ]);
+  }).timeout(30000);
+});
@@ -0,0 +1,144 @@
+/**
+ * Notebook Cell Tests
+ *
+ * Each notebook cell is its own document with a `vscode-notebook-cell` URI.
+ * Verify which cells are aligned, and that cells of one notebook are parsed,
+ * cached and edited independently.
+ */
+
+import * as assert from "assert";
+import * as path from "path";
+import {
+  AlignmentSettings,
+  NOTEBOOK_CELL_SCHEME,
+  shouldAlignDocument,
+} from "../../core/notebook";
+import { applyPaddingOps } from "../../logic/Formatter";
+import { groupTokens } from "../../logic/Grouper";
+import { calculatePaddingOps } from "../../logic/Layout";
+import { ParserService } from "../../parsing/ParserService";
+import { createMockDocument } from "../mocks/MockDocument";
+
+/** Cell URIs of one notebook differ only in their fragment */
+const NOTEBOOK = `${NOTEBOOK_CELL_SCHEME}:/work/analysis.ipynb`;
+const CELL_1 = `${NOTEBOOK}#W0sZmlsZQ%3D%3D`;
+const CELL_2 = `${NOTEBOOK}#W1sZmlsZQ%3D%3D`;
+
+suite("Notebook Cell Tests", () => {
+  let parserService: ParserService;
+
+  suiteSetup(async () => {
+    const wasmDir = path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+    parserService = new ParserService({ wasmDir });
+    await parserService.initialize();
+  });
+
+  suiteTeardown(() => {
+    parserService.dispose();
+  });
+
+  /** Aligns a cell's text the way its editor displays it */
+  async function alignCell(
+    uri: string,
+    text: string,
+    languageId: string
+  ): Promise<string> {
+    const doc = { ...createMockDocument(text, languageId), uri };
+    const tokens = await parserService.parse(doc, 0, doc.lineCount - 1);
+    return applyPaddingOps(text, calculatePaddingOps(groupTokens(tokens)));
+  }
+
+  const defaults: AlignmentSettings = {
+    enabledLanguages: {},
+    notebookMarkdownCells: false,
+  };
+
+  test("code cells align by their language", () => {
+    const cell = { languageId: "python", uriScheme: NOTEBOOK_CELL_SCHEME };
+    assert.strictEqual(shouldAlignDocument(cell, defaults), true);
+    assert.strictEqual(
+      shouldAlignDocument(cell, {
+        ...defaults,
+        enabledLanguages: { python: false },
+      }),
+      false
+    );
+    assert.strictEqual(
+      shouldAlignDocument({ ...cell, languageId: "r" }, defaults),
+      false
+    );
+  });
+
+  test("markdown cells align only when enabled", () => {
+    const cell = { languageId: "markdown", uriScheme: NOTEBOOK_CELL_SCHEME };
+    assert.strictEqual(shouldAlignDocument(cell, defaults), false);
+    assert.strictEqual(
+      shouldAlignDocument(cell, { ...defaults, notebookMarkdownCells: true }),
+      true
+    );
+    // Markdown files are not affected by the notebook setting
+    assert.strictEqual(
+      shouldAlignDocument({ ...cell, uriScheme: "file" }, defaults),
+      true
+    );
+  });
+
+  test("python cells with magics align", async () => {
+    const text = [
+      "%matplotlib inline",
+      "rows = 10",
+      "learning_rate = 0.01",
+    ].join("\n");
+
+    assert.strictEqual(
+      await alignCell(CELL_1, text, "python"),
+      ["%matplotlib inline", "rows          = 10", "learning_rate = 0.01"].join(
+        "\n"
+      )
+    );
+    parserService.closeDocument(CELL_1);
+  });
+
+  test("cells of one notebook are edited independently", async () => {
+    const first = ["a = 1", "bbb = 2"].join("\n");
+    const second = ["x = 1", "yy = 2"].join("\n");
+    await alignCell(CELL_1, first, "python");
+    await alignCell(CELL_2, second, "python");
+
+    // Editing the first cell must not touch the second cell's cached tree
+    parserService.applyEdits(CELL_1, [
+      {
+        range: {
+          start: { line: 0, character: 1 },
+          end: { line: 0, character: 1 },
+        },
+        rangeOffset: 1,
+        rangeLength: 0,
+        text: "aaaa",
+      },
+    ]);
+
+    assert.strictEqual(
+      await alignCell(CELL_1, ["aaaaa = 1", "bbb = 2"].join("\n"), "python"),
+      ["aaaaa = 1", "bbb   = 2"].join("\n")
+    );
+    assert.strictEqual(
+      await alignCell(CELL_2, second, "python"),
+      ["x  = 1", "yy = 2"].join("\n")
+    );
+    parserService.closeDocument(CELL_1);
+    parserService.closeDocument(CELL_2);
+  });
+
+  test("markdown cells align their code fences", async () => {
+    const text = ["Setup:", "", "```python", "a = 1", "bbb = 2", "```"].join(
+      "\n"
+    );
+
+    assert.strictEqual(
+      await alignCell(CELL_1, text, "markdown"),
+      ["Setup:", "", "```python", "a   = 1", "bbb = 2", "```"].join("\n")
+    );
+    parserService.closeDocument(CELL_1);
+  });
+});
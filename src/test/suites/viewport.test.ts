@@ -0,0 +1,247 @@
+/**
+ * Viewport Alignment Tests
+ *
+ * Aligning only the lines around the viewport must give the same groups
+ * there as a full-document pass, including groups crossing the viewport edge.
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AlignmentGroup,
+  LineRange,
+  ParseableDocument,
+} from "../../core/types";
+import { groupTokens } from "../../logic/Grouper";
+import { alignViewport, DocumentAlignment } from "../../logic/Viewport";
+import { ParserService } from "../../parsing/ParserService";
+import { expandToBlankLines, MAX_EXPANSION } from "../../parsing/text-utils";
+import { createMockDocument } from "../mocks/MockDocument";
+import { collectFixtures, FIXTURES_DIR } from "../test-helpers";
+
+suite("Viewport Alignment Tests", () => {
+  let parserService: ParserService;
+
+  suiteSetup(async () => {
+    const wasmDir = path.dirname(require.resolve("@vscode/tree-sitter-wasm"));
+    parserService = new ParserService({ wasmDir });
+    await parserService.initialize();
+  });
+
+  suiteTeardown(() => {
+    parserService.dispose();
+  });
+
+  /** Strips parse-specific IDs so groups from different parses compare */
+  function shape(groups: AlignmentGroup[]) {
+    return groups.map((g) => ({
+      lines: g.tokens.map((t) => t.line),
+      columns: g.tokens.map((t) => t.column),
+      targetColumn: g.targetColumn,
+    }));
+  }
+
+  /** Groups with any token inside a line range */
+  function touching(groups: AlignmentGroup[], range: LineRange) {
+    return groups.filter((g) =>
+      g.tokens.some((t) => t.line >= range.start && t.line <= range.end)
+    );
+  }
+
+  /**
+   * Scrolls through viewports one after another and checks that each
+   * aligns exactly as in a full-document pass.
+   */
+  async function assertScrollMatchesFullPass(
+    doc: ParseableDocument,
+    viewports: LineRange[]
+  ): Promise<DocumentAlignment | undefined> {
+    const fullGroups = groupTokens(
+      await parserService.parse(doc, 0, doc.lineCount - 1)
+    );
+    let alignment: DocumentAlignment | undefined;
+    for (const viewport of viewports) {
+      alignment = await alignViewport(doc, 1, viewport, alignment, (s, e) =>
+        parserService.parse(doc, s, e)
+      );
+      assert.deepStrictEqual(
+        shape(touching(alignment.groups, viewport)),
+        shape(touching(fullGroups, viewport)),
+        `viewport at line ${viewport.start} differs`
+      );
+    }
+    return alignment;
+  }
+
+  test("expandToBlankLines stops at blank lines and document edges", () => {
+    const doc = createMockDocument(
+      ["a = 1", "b = 2", "", "c = 3", "  ", "d = 4", "e = 5"].join("\n"),
+      "python"
+    );
+
+    assert.deepStrictEqual(expandToBlankLines(doc, 1, 1), {
+      start: 0,
+      end: 1,
+    });
+    assert.deepStrictEqual(expandToBlankLines(doc, 3, 3), {
+      start: 3,
+      end: 3,
+    });
+    assert.deepStrictEqual(expandToBlankLines(doc, 5, 99), {
+      start: 5,
+      end: 6,
+    });
+  });
+
+  test("expandToBlankLines stops at its limit without blank lines", () => {
+    const doc = createMockDocument(
+      Array.from({ length: 1000 }, (_, i) => `key${i} = ${i}`).join("\n"),
+      "python"
+    );
+
+    assert.deepStrictEqual(expandToBlankLines(doc, 500, 510), {
+      start: 500 - MAX_EXPANSION,
+      end: 510 + MAX_EXPANSION,
+    });
+    assert.deepStrictEqual(expandToBlankLines(doc, 500, 510, 0), {
+      start: 500,
+      end: 510,
+    });
+  });
+
+  test("large files without blank lines are parsed around the viewport only", async () => {
+    // Like package-lock.json: thousands of lines, not one of them blank
+    const lines = ["{", '  "packages": {'];
+    for (let i = 0; i < 600; i++) {
+      lines.push(
+        `    "node_modules/package-${i}": {`,
+        `      "version": "1.${i}.0",`,
+        `      "resolved": "https://registry.npmjs.org/package-${i}.tgz",`,
+        `      "dev": true`,
+        i < 599 ? "    }," : "    }"
+      );
+    }
+    lines.push("  }", "}");
+    const full = createMockDocument(lines.join("\n"), "json");
+    const fullGroups = groupTokens(
+      await parserService.parse(full, 0, full.lineCount - 1)
+    );
+
+    const read = new Set<number>();
+    const doc = {
+      ...full,
+      getText: (): string => {
+        throw new Error("The whole document was read");
+      },
+      lineAt: (line: number) => {
+        read.add(line);
+        return full.lineAt(line);
+      },
+    };
+    const viewport = { start: 1500, end: 1550 };
+    const alignment = await alignViewport(doc, 1, viewport, undefined, (s, e) =>
+      parserService.parse(doc, s, e)
+    );
+
+    // Nothing is read past one expansion step below the aligned range
+    const [range] = alignment.ranges;
+    assert.ok(Math.max(...read) <= range.end + MAX_EXPANSION);
+
+    // The viewport aligns exactly as in a full-document pass
+    assert.ok(touching(fullGroups, viewport).length > 0);
+    assert.deepStrictEqual(
+      shape(touching(alignment.groups, viewport)),
+      shape(touching(fullGroups, viewport))
+    );
+  });
+
+  test("scrolling through a large flat object keeps every viewport aligned", async () => {
+    const lines = ["{"];
+    for (let i = 0; i < 2000; i++) {
+      lines.push(`  "key${i}": ${i}${i < 1999 ? "," : ""}`);
+    }
+    lines.push("}");
+    const doc = createMockDocument(lines.join("\n"), "json");
+
+    const alignment = await assertScrollMatchesFullPass(
+      doc,
+      [1000, 400, 700, 400].map((line) => ({ start: line, end: line + 50 }))
+    );
+    assert.ok(touching(alignment!.groups, { start: 400, end: 450 }).length);
+  });
+
+  test("a block scalar longer than the expansion limit stays a string", async () => {
+    const lines = ["build:", "  script: |"];
+    for (let i = 0; i < 1000; i++) {
+      lines.push(`    key${i}: value${i}`);
+    }
+    lines.push("  image: node", "  stage: test");
+    const doc = createMockDocument(lines.join("\n"), "yaml");
+
+    // The scanner must know it is inside the scalar, 800 lines down
+    assert.deepStrictEqual(await parserService.parse(doc, 800, 850), []);
+
+    const alignment = await assertScrollMatchesFullPass(doc, [
+      { start: 800, end: 850 },
+    ]);
+    const inScalar = (line: number) => line >= 2 && line <= 1001;
+    assert.ok(
+      alignment!.groups.every((g) => !g.tokens.some((t) => inScalar(t.line)))
+    );
+  });
+
+  test("nested objects and comments longer than the expansion limit", async () => {
+    const lines = ["{", '  "services": {'];
+    for (let i = 0; i < 60; i++) {
+      lines.push(
+        `    "service-${i}": {`,
+        `      "port": ${8000 + i},`,
+        `      "replicas": ${i % 3}`,
+        i < 59 ? "    }," : "    }"
+      );
+    }
+    lines.push("  },", "  /*");
+    for (let i = 0; i < 300; i++) {
+      lines.push(`  "disabled-${i}": ${i},`);
+    }
+    lines.push("  */", '  "version": 2,', '  "name": "services"', "}");
+    const doc = createMockDocument(lines.join("\n"), "jsonc");
+    assert.deepStrictEqual(await parserService.parse(doc, 450, 480), []);
+
+    await assertScrollMatchesFullPass(doc, [
+      { start: 200, end: 230 },
+      { start: 450, end: 480 },
+      { start: doc.lineCount - 30, end: doc.lineCount - 1 },
+    ]);
+  });
+
+  test("every window of every fixture matches the full-document groups", async () => {
+    for (const fixture of collectFixtures()) {
+      const name = path.relative(FIXTURES_DIR, fixture.dir);
+      const content = fs
+        .readFileSync(fixture.beforePath, "utf-8")
+        .replace(/\r\n/g, "\n");
+      const doc = createMockDocument(content, fixture.languageId);
+      const fullGroups = groupTokens(
+        await parserService.parse(doc, 0, doc.lineCount - 1)
+      );
+
+      for (let line = 0; line < doc.lineCount; line++) {
+        const range = expandToBlankLines(doc, line, line);
+        const rangeGroups = groupTokens(
+          await parserService.parse(doc, range.start, range.end)
+        );
+        const expected = fullGroups.filter((g) =>
+          g.tokens.some((t) => t.line >= range.start && t.line <= range.end)
+        );
+
+        assert.deepStrictEqual(
+          shape(rangeGroups),
+          shape(expected),
+          `${name} differs for window at line ${line}`
+        );
+      }
+    }
+  }).timeout(10000);
+});
@@ -2,7 +2,28 @@
  * Shared test helpers for alignment extension tests.
  */
 
-import { AlignmentToken } from "../core/types";
+import * as fs from "fs";
+import * as path from "path";
+import { EXT_TO_LANG } from "../cli/files";
+import { AlignmentToken, OperatorType } from "../core/types";
+
+/** Path to fixtures (src/test/fixtures from project root) */
+export const FIXTURES_DIR = path.join(
+  __dirname,
+  "..",
+  "..",
+  "src",
+  "test",
+  "fixtures"
+);
+
+/** A fixture folder with its before/after file pair */
+export interface Fixture {
+  dir: string;
+  beforePath: string;
+  afterPath: string;
+  languageId: string;
+}
 
 /**
  * Helper to create tokens with default values for testing.
@@ -11,13 +32,14 @@ export function token(
   line: number,
   column: number,
   text: string,
-  type: "=" | ":" | "," | "&&" | "||" | "and" | "or" | "//" | "funcArg",
+  type: OperatorType,
   opts?: {
     indent?: number;
     parentType?: string;
     tokenIndex?: number;
     scopeId?: string;
     operatorCountOnLine?: number;
+    cellAlign?: AlignmentToken["cellAlign"];
   },
 ): AlignmentToken {
   return {
@@ -30,5 +52,60 @@ export function token(
     tokenIndex: opts?.tokenIndex ?? 0,
     scopeId: opts?.scopeId ?? "default_scope",
     operatorCountOnLine: opts?.operatorCountOnLine ?? 1,
+    ...(opts?.cellAlign && { cellAlign: opts.cellAlign }),
   };
 }
+
+/**
+ * Find the before/after file pair in a fixture directory.
+ * In UPDATE_SNAPSHOTS mode, the after file doesn't need to exist yet.
+ */
+function findFixtureFiles(dir: string): Fixture | null {
+  const updateSnapshots = process.env.UPDATE_SNAPSHOTS === "1";
+  for (const file of fs.readdirSync(dir)) {
+    const match = file.match(/^before\.(\w+)\.txt$/);
+    if (match) {
+      const ext = match[1];
+      const afterPath = path.join(dir, `after.${ext}.txt`);
+      if (fs.existsSync(afterPath) || updateSnapshots) {
+        return {
+          dir,
+          beforePath: path.join(dir, file),
+          afterPath,
+          languageId: EXT_TO_LANG[ext] || ext,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect all fixture directories under FIXTURES_DIR.
+ */
+export function collectFixtures(): Fixture[] {
+  const fixtures: Fixture[] = [];
+
+  function walk(dir: string): void {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        const subdir = path.join(dir, entry.name);
+        const fixture = findFixtureFiles(subdir);
+
+        if (fixture) {
+          fixtures.push(fixture);
+        } else {
+          walk(subdir);
+        }
+      }
+    }
+  }
+
+  walk(FIXTURES_DIR);
+  return fixtures;
+}
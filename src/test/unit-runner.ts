@@ -9,18 +9,10 @@ import * as assert from "assert";
 import * as fs from "fs";
 import * as path from "path";
 import { groupTokens } from "../logic/Grouper";
+import { calculatePaddingOps } from "../logic/Layout";
 import { ParserService } from "../parsing/ParserService";
 import { createMockDocument } from "./mocks/MockDocument";
-
-// Path to fixtures
-const FIXTURES_DIR = path.join(
-  __dirname,
-  "..",
-  "..",
-  "src",
-  "test",
-  "fixtures"
-);
+import { collectFixtures, FIXTURES_DIR } from "./test-helpers";
 
 // Enable snapshot updates via environment variable
 const UPDATE_SNAPSHOTS = process.env.UPDATE_SNAPSHOTS === "1";
@@ -28,149 +20,11 @@ const UPDATE_SNAPSHOTS = process.env.UPDATE_SNAPSHOTS === "1";
 // Padding character
 const PAD = " ";
 
-// Map file extensions to language IDs
-const EXT_TO_LANG: Record<string, string> = {
-  ts: "typescript",
-  tsx: "typescriptreact",
-  js: "javascript",
-  jsx: "javascriptreact",
-  json: "json",
-  jsonc: "jsonc",
-  yaml: "yaml",
-  yml: "yaml",
-  py: "python",
-  css: "css",
-  scss: "scss",
-  less: "less",
-  md: "markdown",
-  sql: "sql",
-};
-
-interface Fixture {
-  dir: string;
-  beforePath: string;
-  afterPath: string;
-  languageId: string;
-}
-
-function findFixtureFiles(dir: string): Fixture | null {
-  const files = fs.readdirSync(dir);
-  for (const file of files) {
-    const match = file.match(/^before\.(\w+)\.txt$/);
-    if (match) {
-      const ext = match[1];
-      const beforePath = path.join(dir, file);
-      const afterFile = `after.${ext}.txt`;
-      const afterPath = path.join(dir, afterFile);
-      if (fs.existsSync(afterPath) || UPDATE_SNAPSHOTS) {
-        return {
-          dir,
-          beforePath,
-          afterPath,
-          languageId: EXT_TO_LANG[ext] || ext,
-        };
-      }
-    }
-  }
-  return null;
-}
-
-function collectFixtures(): Fixture[] {
-  const fixtures: Fixture[] = [];
-
-  function walk(dir: string): void {
-    if (!fs.existsSync(dir)) return;
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const subdir = path.join(dir, entry.name);
-        const fixture = findFixtureFiles(subdir);
-        if (fixture) {
-          fixtures.push(fixture);
-        } else {
-          walk(subdir);
-        }
-      }
-    }
-  }
-
-  walk(FIXTURES_DIR);
-  return fixtures;
-}
-
 function applyAlignment(
   sourceLines: string[],
   groups: ReturnType<typeof groupTokens>
 ): string[] {
-  const sortedGroups = [...groups].sort((a, b) => {
-    if (a.tokens[0].line !== b.tokens[0].line) {
-      return a.tokens[0].line - b.tokens[0].line;
-    }
-    return a.tokens[0].column - b.tokens[0].column;
-  });
-
-  const lineShift = new Map<number, number>();
-  const paddingOps: Array<{ line: number; column: number; spaces: number }> =
-    [];
-
-  for (const group of sortedGroups) {
-    let visualTargetColumn: number;
-
-    if (group.tokens.length === 1) {
-      const token = group.tokens[0];
-      const shift = lineShift.get(token.line) ?? 0;
-      if (group.padAfter) {
-        const originalEndColumn = token.column + token.text.length;
-        const originalPadding = group.targetColumn - originalEndColumn;
-        visualTargetColumn = originalEndColumn + shift + originalPadding;
-      } else {
-        const originalPadding = group.targetColumn - token.column;
-        visualTargetColumn = token.column + shift + originalPadding;
-      }
-    } else if (group.padAfter) {
-      visualTargetColumn = Math.max(
-        ...group.tokens.map((t) => {
-          const shift = lineShift.get(t.line) ?? 0;
-          return t.column + t.text.length + shift;
-        })
-      );
-    } else {
-      visualTargetColumn = Math.max(
-        ...group.tokens.map((t) => {
-          const shift = lineShift.get(t.line) ?? 0;
-          return t.column + shift;
-        })
-      );
-    }
-
-    for (const token of group.tokens) {
-      const shift = lineShift.get(token.line) ?? 0;
-      let spacesNeeded: number;
-      let insertColumn: number;
-
-      if (group.padAfter) {
-        const visualEndColumn = token.column + token.text.length + shift;
-        spacesNeeded = visualTargetColumn - visualEndColumn;
-        insertColumn = token.column + token.text.length;
-      } else {
-        const visualColumn = token.column + shift;
-        spacesNeeded = visualTargetColumn - visualColumn;
-        insertColumn = token.column;
-      }
-
-      if (spacesNeeded > 0) {
-        paddingOps.push({
-          line: token.line,
-          column: insertColumn,
-          spaces: spacesNeeded,
-        });
-        lineShift.set(
-          token.line,
-          (lineShift.get(token.line) ?? 0) + spacesNeeded
-        );
-      }
-    }
-  }
+  const paddingOps = calculatePaddingOps(groups);
 
   const result: string[] = [];
   for (let lineIdx = 0; lineIdx < sourceLines.length; lineIdx++) {
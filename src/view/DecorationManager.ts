@@ -8,257 +8,47 @@
 
 import * as vscode from "vscode";
 import { AlignmentGroup } from "../core/types";
-
-/** Maximum number of spaces we'll cache decoration types for */
-const MAX_CACHED_WIDTH = 50;
+import {
+  calculatePaddingOps,
+  groupOpsByWidth,
+  PaddingOp,
+} from "../logic/Layout";
 
 export class DecorationManager {
   /** Cache of decoration types by width (number of spaces) */
   private decorationTypes: Map<number, vscode.TextEditorDecorationType> =
     new Map();
 
-  /** Track which decoration types are currently applied to clear them */
-  private activeDecorations: Map<vscode.TextEditor, Set<number>> = new Map();
+  /** Track the padding currently applied to each editor to clear it */
+  private activeDecorations: Map<vscode.TextEditor, PaddingOp[]> = new Map();
 
   /**
    * Updates decorations for an editor based on alignment groups.
-   *
-   * Multi-pass algorithm to handle accumulated shift:
-   * 1. Process funcArg groups column-by-column (Column-Based Sweep)
-   * 2. Process regular operators, tracking per-line shift
-   * 3. Process comments accounting for accumulated shift
+   * Padding comes from the shared layout, so it matches Apply Formatting.
    */
   update(editor: vscode.TextEditor, groups: AlignmentGroup[]): void {
     // Clear existing decorations for this editor
     this.clear(editor);
 
-    // Separate groups by type
-    const commentGroups = groups.filter((g) => g.tokens[0]?.type === "//");
-    const funcArgGroups = groups.filter((g) => g.tokens[0]?.type === "funcArg");
-    const regularGroups = groups.filter(
-      (g) => g.tokens[0]?.type !== "//" && g.tokens[0]?.type !== "funcArg"
-    );
-
-    // Track accumulated shift per line (from all padding)
-    const lineShift = new Map<number, number>();
-
-    // Batch ranges by width for efficient decoration application
-    const rangesByWidth = new Map<number, vscode.Range[]>();
-
-    // --- PASS 1: Process funcArg groups using Column-Based Sweep ---
-    // Group funcArg tokens by scope, then process column-by-column
-    const funcArgByScope = new Map<string, AlignmentGroup[]>();
-    for (const group of funcArgGroups) {
-      const scopeId = group.tokens[0]?.scopeId ?? "default";
-      if (!funcArgByScope.has(scopeId)) {
-        funcArgByScope.set(scopeId, []);
-      }
-      funcArgByScope.get(scopeId)!.push(group);
-    }
-
-    for (const scopeGroups of funcArgByScope.values()) {
-      // Sort groups by tokenIndex (column order)
-      scopeGroups.sort(
-        (a, b) => a.tokens[0].tokenIndex - b.tokens[0].tokenIndex
-      );
-
-      // Track shift per line within this scope
-      const scopeLineShift = new Map<number, number>();
-
-      // Process each column (tokenIndex) left-to-right
-      for (const group of scopeGroups) {
-        // Calculate visual end positions accounting for accumulated shift
-        let maxVisualEnd = 0;
-        const tokenVisualEnds: Array<{
-          token: (typeof group.tokens)[0];
-          visualEnd: number;
-        }> = [];
-
-        for (const token of group.tokens) {
-          const shift = scopeLineShift.get(token.line) ?? 0;
-          const visualEnd = token.column + token.text.length + shift;
-          tokenVisualEnds.push({ token, visualEnd });
-          if (visualEnd > maxVisualEnd) {
-            maxVisualEnd = visualEnd;
-          }
-        }
-
-        // Apply padding and update shifts
-        for (const { token, visualEnd } of tokenVisualEnds) {
-          const spacesNeeded = maxVisualEnd - visualEnd;
-
-          if (spacesNeeded > 0 && spacesNeeded <= MAX_CACHED_WIDTH) {
-            // Pad BEFORE the token (right-align)
-            const shift = scopeLineShift.get(token.line) ?? 0;
-            const visualColumn = token.column + shift;
-            const pos = new vscode.Position(token.line, visualColumn);
-
-            if (!rangesByWidth.has(spacesNeeded)) {
-              rangesByWidth.set(spacesNeeded, []);
-            }
-            rangesByWidth.get(spacesNeeded)!.push(new vscode.Range(pos, pos));
-
-            // Update accumulated shift for this line
-            const currentShift = scopeLineShift.get(token.line) ?? 0;
-            scopeLineShift.set(token.line, currentShift + spacesNeeded);
-          }
-        }
-      }
-
-      // Merge scope shifts into global lineShift for comment alignment
-      for (const [line, shift] of scopeLineShift) {
-        const current = lineShift.get(line) ?? 0;
-        lineShift.set(line, current + shift);
-      }
-    }
-
-    // --- PASS 2: Process regular operators ---
-    // Separate function_arguments commas (need shift adjustment) from other operators
-    const funcArgCommaGroups = regularGroups.filter(
-      (g) => g.tokens[0]?.parentType === "function_arguments"
-    );
-    const otherRegularGroups = regularGroups.filter(
-      (g) => g.tokens[0]?.parentType !== "function_arguments"
-    );
-
-    // Process function_arguments commas with shift adjustment (like comments)
-    for (const group of funcArgCommaGroups) {
-      // Recalculate target column using VISUAL positions
-      const visualEndColumns = group.tokens.map((t) => {
-        const shift = lineShift.get(t.line) ?? 0;
-        return t.column + t.text.length + shift;
-      });
-      const targetVisualEndColumn = Math.max(...visualEndColumns);
-
-      for (const token of group.tokens) {
-        const shift = lineShift.get(token.line) ?? 0;
-        const currentVisualEndColumn = token.column + token.text.length + shift;
-        const spacesNeeded = targetVisualEndColumn - currentVisualEndColumn;
-
-        if (spacesNeeded <= 0 || spacesNeeded > MAX_CACHED_WIDTH) {
-          continue;
-        }
-
-        // Pad AFTER the comma (padAfter = true for commas)
-        const visualColumn = token.column + token.text.length + shift;
-        const pos = new vscode.Position(token.line, visualColumn);
-
-        if (!rangesByWidth.has(spacesNeeded)) {
-          rangesByWidth.set(spacesNeeded, []);
-        }
-        rangesByWidth.get(spacesNeeded)!.push(new vscode.Range(pos, pos));
-
-        // Track this shift
-        const currentShift = lineShift.get(token.line) ?? 0;
-        lineShift.set(token.line, currentShift + spacesNeeded);
-      }
-    }
-
-    // Process other regular operators normally
-    for (const group of otherRegularGroups) {
-      // Recalculate target column using VISUAL positions (accounting for accumulated shifts)
-      let visualTargetColumn: number;
-      if (group.padAfter) {
-        // For padAfter groups, target is max visual end column
-        visualTargetColumn = Math.max(
-          ...group.tokens.map((t) => {
-            const shift = lineShift.get(t.line) ?? 0;
-            return t.column + t.text.length + shift;
-          })
-        );
-      } else {
-        // For padBefore groups, target is max visual start column
-        visualTargetColumn = Math.max(
-          ...group.tokens.map((t) => {
-            const shift = lineShift.get(t.line) ?? 0;
-            return t.column + shift;
-          })
-        );
-      }
-
-      for (const token of group.tokens) {
-        // Get current accumulated shift for this line (from previous passes/operators)
-        const currentShift = lineShift.get(token.line) ?? 0;
+    const ops = calculatePaddingOps(groups);
 
-        let spacesNeeded: number;
-        let pos: vscode.Position;
-
-        if (group.padAfter) {
-          // For `:` - pad AFTER operator to align values
-          // Visual end = document position + text length + accumulated shift
-          const visualEnd = token.column + token.text.length + currentShift;
-          spacesNeeded = visualTargetColumn - visualEnd;
-          pos = new vscode.Position(
-            token.line,
-            token.column + token.text.length
-          );
-        } else {
-          // For `=`, `&&`, `||`, `}` - pad BEFORE operator to align operators
-          // Visual start = document position + accumulated shift
-          const visualStart = token.column + currentShift;
-          spacesNeeded = visualTargetColumn - visualStart;
-          pos = new vscode.Position(token.line, token.column);
-        }
-
-        // IMPORTANT: Always update lineShift for this line, even if no decoration is needed.
-        // This ensures Pass 3 (comments) sees the correct accumulated shift.
-        // If spacesNeeded is 0 or negative, we still need to preserve currentShift.
-        const actualSpacesAdded = Math.max(0, spacesNeeded);
-        if (actualSpacesAdded > 0) {
-          lineShift.set(token.line, currentShift + actualSpacesAdded);
-        }
-
-        if (spacesNeeded <= 0 || spacesNeeded > MAX_CACHED_WIDTH) {
-          continue;
-        }
-
-        if (!rangesByWidth.has(spacesNeeded)) {
-          rangesByWidth.set(spacesNeeded, []);
-        }
-
-        rangesByWidth.get(spacesNeeded)!.push(new vscode.Range(pos, pos));
-      }
-    }
-
-    // --- PASS 3: Process comment groups with shift adjustment ---
-    for (const group of commentGroups) {
-      // Recalculate target column using VISUAL positions
-      // Visual position = original column + accumulated shift
-      const visualColumns = group.tokens.map((t) => {
-        const shift = lineShift.get(t.line) ?? 0;
-        return t.column + shift;
+    // Apply decorations in batches by width
+    for (const [width, widthOps] of groupOpsByWidth(ops)) {
+      const ranges = widthOps.map((op) => {
+        const pos = new vscode.Position(op.line, op.column);
+        return new vscode.Range(pos, pos);
       });
-      const targetVisualColumn = Math.max(...visualColumns);
-
-      for (const token of group.tokens) {
-        const shift = lineShift.get(token.line) ?? 0;
-        const currentVisualColumn = token.column + shift;
-        const spacesNeeded = targetVisualColumn - currentVisualColumn;
-
-        if (spacesNeeded <= 0 || spacesNeeded > MAX_CACHED_WIDTH) {
-          continue;
-        }
-
-        const pos = new vscode.Position(token.line, token.column);
-
-        if (!rangesByWidth.has(spacesNeeded)) {
-          rangesByWidth.set(spacesNeeded, []);
-        }
-
-        rangesByWidth.get(spacesNeeded)!.push(new vscode.Range(pos, pos));
-      }
+      editor.setDecorations(this.getDecorationType(width), ranges);
     }
 
-    // Apply decorations in batches by width
-    const activeWidths = new Set<number>();
-
-    for (const [width, ranges] of rangesByWidth) {
-      const decorationType = this.getDecorationType(width);
-      editor.setDecorations(decorationType, ranges);
-      activeWidths.add(width);
-    }
+    this.activeDecorations.set(editor, ops);
+  }
 
-    this.activeDecorations.set(editor, activeWidths);
+  /**
+   * Gets the padding currently shown in an editor.
+   */
+  getPadding(editor: vscode.TextEditor): PaddingOp[] {
+    return this.activeDecorations.get(editor) ?? [];
   }
 
   /**
@@ -283,9 +73,9 @@ export class DecorationManager {
    * Clears all decorations from an editor.
    */
   clear(editor: vscode.TextEditor): void {
-    const activeWidths = this.activeDecorations.get(editor);
-    if (activeWidths) {
-      for (const width of activeWidths) {
+    const ops = this.activeDecorations.get(editor);
+    if (ops) {
+      for (const width of groupOpsByWidth(ops).keys()) {
         const decorationType = this.decorationTypes.get(width);
         if (decorationType) {
           editor.setDecorations(decorationType, []);
@@ -295,6 +85,18 @@ export class DecorationManager {
     }
   }
 
+  /**
+   * Forgets editors that are no longer visible.
+   * VS Code disposes their decorations, so only our bookkeeping is dropped.
+   */
+  retain(visibleEditors: readonly vscode.TextEditor[]): void {
+    for (const editor of this.activeDecorations.keys()) {
+      if (!visibleEditors.includes(editor)) {
+        this.activeDecorations.delete(editor);
+      }
+    }
+  }
+
   /**
    * Clears decorations from all editors.
    */